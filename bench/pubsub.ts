@@ -0,0 +1,112 @@
+/**
+ * Pub/Sub Benchmark
+ * Compares login subscription latency and Redis memory for per-user and sharded presence channels.
+ *
+ * Needs a local Redis (docker compose up redis). Tune with REDIS_URL,
+ * BENCH_LOGINS, BENCH_FOLLOWING, BENCH_POPULATION and BENCH_SHARDS.
+ */
+
+import type WebSocket from 'ws';
+import { PubSubService } from '../src/server/services/pubsub';
+
+const REDIS_URL = process.env['REDIS_URL'] ?? 'redis://localhost:6380';
+const LOGINS = envInt('BENCH_LOGINS', 500);           // Sockets connecting to this node
+const FOLLOWING = envInt('BENCH_FOLLOWING', 200);     // Friends each one subscribes to
+const POPULATION = envInt('BENCH_POPULATION', 50_000); // Distinct users friends are drawn from
+const SHARDS = envInt('BENCH_SHARDS', 64);
+
+interface Result {
+  mode: string;
+  p50: number;
+  p95: number;
+  max: number;
+  channels: number;
+  memory: number;
+}
+
+function envInt(name: string, fallback: number): number {
+  return parseInt(process.env[name] ?? '', 10) || fallback;
+}
+
+/** Deterministic PRNG so both modes see the same follow graph */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 0x100000000;
+  };
+}
+
+function friendLists(): string[][] {
+  const next = random(42);
+  return Array.from({ length: LOGINS }, () =>
+    Array.from({ length: FOLLOWING }, () => `user${Math.floor(next() * POPULATION)}`)
+  );
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] ?? 0;
+}
+
+async function usedMemory(pubsub: PubSubService): Promise<number> {
+  const info = await pubsub.publisher.info('memory');
+  const match = /used_memory:(\d+)/.exec(info);
+  return match?.[1] ? parseInt(match[1], 10) : 0;
+}
+
+async function run(mode: string, presenceShards: number, friends: string[][]): Promise<Result> {
+  const pubsub = new PubSubService(REDIS_URL, { presenceShards });
+  await pubsub.initialize();
+  const before = await usedMemory(pubsub);
+
+  const sockets: WebSocket[] = [];
+  const latencies: number[] = [];
+  for (const [i, following] of friends.entries()) {
+    const ws = { readyState: 1, send: () => { } } as unknown as WebSocket;
+    sockets.push(ws);
+    const start = performance.now();
+    await pubsub.subscribeToMany(ws, following, `viewer${i}`);
+    latencies.push(performance.now() - start);
+  }
+
+  const memory = await usedMemory(pubsub) - before;
+  const channels = (await pubsub.publisher.pubsub('CHANNELS', 'presence*') as string[]).length;
+
+  for (const ws of sockets) {
+    await pubsub.unsubscribeAll(ws);
+  }
+  await pubsub.close();
+
+  latencies.sort((a, b) => a - b);
+  return {
+    mode,
+    p50: percentile(latencies, 0.5),
+    p95: percentile(latencies, 0.95),
+    max: latencies[latencies.length - 1] ?? 0,
+    channels,
+    memory,
+  };
+}
+
+async function main(): Promise<void> {
+  console.log(`[Bench] ${LOGINS} logins × ${FOLLOWING} friends from ${POPULATION} users, ${SHARDS} shards (${REDIS_URL})`);
+  const friends = friendLists();
+
+  const results = [
+    await run('per-user', 0, friends),
+    await run(`sharded(${SHARDS})`, SHARDS, friends),
+  ];
+
+  console.table(results.map(result => ({
+    mode: result.mode,
+    'login p50 (ms)': result.p50.toFixed(2),
+    'login p95 (ms)': result.p95.toFixed(2),
+    'login max (ms)': result.max.toFixed(2),
+    'redis channels': result.channels,
+    'redis memory (KiB)': (result.memory / 1024).toFixed(1),
+  })));
+}
+
+main().catch((error) => {
+  console.error('[Bench] Failed:', error);
+  process.exit(1);
+});
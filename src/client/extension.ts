@@ -6,15 +6,63 @@
 import * as vscode from 'vscode';
 import { WsClient } from './services/wsClient';
 import { ActivityTracker } from './services/activityTracker';
-import { AnalyticsService, AnalyticsDashboard } from './services';
+import { AnalyticsService, AnalyticsDashboard, ChatStore, ChatPanels } from './services';
 import { PresenceProvider, ConnectionProvider, ChannelProvider } from './providers';
+import { MAX_ATTACHMENT_BYTES } from '../shared/types';
+import type { ChannelInvite, ChatAttachment, UserPreferences, UserStatus, VisibilityMode } from '../shared/types';
 
 let wsClient: WsClient | null = null;
 let activityTracker: ActivityTracker | null = null;
 let analyticsService: AnalyticsService | null = null;
 let analyticsDashboard: AnalyticsDashboard | null = null;
+let chatPanels: ChatPanels | null = null;
 let statusBarItem: vscode.StatusBarItem | null = null;
 
+/**
+ * Summarise an invite's remaining lifetime and uses
+ */
+function describeInvite(invite: ChannelInvite): string {
+  const hours = Math.max(0, Math.round((invite.expiresAt - Date.now()) / 3600000));
+  const expires = hours >= 24 ? `expires in ${Math.round(hours / 24)}d` : `expires in ${hours}h`;
+  const uses = invite.maxUses ? `${invite.uses}/${invite.maxUses} uses` : `${invite.uses} uses`;
+  return `${uses}, ${expires}`;
+}
+
+/**
+ * Let an admin copy or revoke one of a channel's invites
+ */
+async function showInvites(channelId: string, invites: ChannelInvite[]): Promise<void> {
+  if (invites.length === 0) {
+    vscode.window.showInformationMessage('This channel has no active invites');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    invites.map(invite => ({
+      label: invite.code,
+      description: describeInvite(invite),
+      detail: invite.createdBy ? `Created by ${invite.createdBy}` : undefined,
+      invite,
+    })),
+    { placeHolder: 'Select an invite' }
+  );
+  if (!picked) return;
+
+  const action = await vscode.window.showQuickPick(['Copy Code', 'Revoke'], { placeHolder: picked.invite.code });
+  if (action === 'Copy Code') {
+    await vscode.env.clipboard.writeText(picked.invite.code);
+  } else if (action === 'Revoke') {
+    wsClient?.revokeInvite(channelId, picked.invite.code);
+  }
+}
+
+/** Argument passed by channel member context-menu commands */
+type ChannelMemberArg = { channelId?: string; member?: UserStatus };
+
+/** SecretStorage key for the GitHub access token */
+const TOKEN_SECRET_KEY = 'vscord.token';
+const GITHUB_SCOPES = ['read:user'];
+
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
   console.log('[VSCord] Extension activating...');
 
@@ -57,6 +105,21 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   const config = vscode.workspace.getConfiguration('vscord');
   const serverUrl = config.get<string>('serverUrl', 'wss://vscord.example.com');
 
+  const chatStore = new ChatStore(context);
+  const refreshUnread = (channelId: string): void => {
+    channelProvider.setUnreadCount(channelId, chatStore.unreadCount(channelId, wsClient?.username));
+  };
+  chatPanels = new ChatPanels(chatStore, {
+    getChannel: (channelId) => channelProvider.getChannel(channelId),
+    isConnected: () => wsClient?.connected ?? false,
+    sendMessage: (channelId, content, replyTo) => wsClient?.sendChannelMessage(channelId, content, { replyTo }),
+    editMessage: (channelId, mid, content) => wsClient?.editChannelMessage(channelId, mid, content),
+    deleteMessage: (channelId, mid) => wsClient?.deleteChannelMessage(channelId, mid),
+    setReaction: (channelId, mid, emoji, add) => wsClient?.setReaction(channelId, mid, emoji, add),
+    requestOlder: (channelId, before) => wsClient?.requestChannelHistory(channelId, before),
+    onRead: refreshUnread,
+  });
+
   // Create WebSocket client
   wsClient = new WsClient({
     serverUrl,
@@ -64,21 +127,35 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       presenceProvider.updateUsers(users);
     },
     onConnectionChange: (connected) => {
-      connectionProvider.updateStatus(connected, wsClient ? 'user' : undefined);
-      updateStatusBar(connected);
+      connectionProvider.updateStatus(connected, wsClient?.username);
+      updateStatusBar(connected, wsClient?.username);
+      chatPanels?.setConnected(connected);
+
+      // A fresh server session starts Idle - send what we are actually doing
+      const state = activityTracker?.getState();
+      if (connected && state) {
+        wsClient?.sendStatusUpdate(state.status, state.activity, state.project, state.language);
+      }
+    },
+    onReconnecting: (attempt) => {
+      connectionProvider.setReconnecting(attempt, wsClient?.username);
+      updateStatusBarReconnecting(attempt);
     },
     onError: (error) => {
       vscode.window.showErrorMessage(`VSCord: ${error}`);
     },
+    getPreferences: readPreferences,
     // Channel callbacks
     onChannelSync: (channel) => {
       channelProvider.updateChannel(channel);
+      chatPanels?.refreshChannel(channel.id);
     },
     onChannelUpdate: (channelId, username, updates) => {
       channelProvider.updateMemberInChannel(channelId, username, updates);
     },
     onChannelMemberJoin: (channelId, member) => {
       channelProvider.addMemberToChannel(channelId, member);
+      chatPanels?.refreshChannel(channelId);
     },
     onChannelMemberLeave: (channelId, username) => {
       channelProvider.removeMemberFromChannel(channelId, username);
@@ -93,11 +170,113 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         }
       });
     },
-    onChannelJoined: (_channelId, name) => {
-      vscode.window.showInformationMessage(`Joined channel "${name}"`);
+    onChannelJoined: (_channelId, name, remaining) => {
+      vscode.window.showInformationMessage(remaining === 0
+        ? `Joined channel "${name}" (it is now full)`
+        : `Joined channel "${name}"`);
+    },
+    onChannelMessage: (channelId, message) => {
+      chatStore.addMessages(channelId, [message]);
+      chatPanels?.addMessage(channelId, message);
+      refreshUnread(channelId);
+
+      const self = wsClient?.username;
+      if (self && message.mentions?.includes(self) && !chatPanels?.isVisible(channelId)) {
+        const name = channelProvider.getChannel(channelId)?.name ?? 'a channel';
+        const preview = message.content || `shared ${message.attachments?.[0]?.path ?? 'code'}`;
+        vscode.window.showInformationMessage(
+          `${message.id} mentioned you in "${name}": ${preview.slice(0, 100)}`,
+          'Open Chat'
+        ).then((action) => {
+          if (action === 'Open Chat') {
+            chatPanels?.show(channelId);
+          }
+        });
+      }
+    },
+    onChannelHistory: (channelId, messages, hasMore) => {
+      chatStore.addHistoryPage(channelId, messages, hasMore);
+      chatPanels?.refreshHistory(channelId);
+      refreshUnread(channelId);
+    },
+    onChannelMessageEdited: (channelId, mid, content, editedAt) => {
+      const message = chatStore.applyEdit(channelId, mid, content, editedAt);
+      if (message) chatPanels?.updateMessage(channelId, message);
+    },
+    onChannelMessageDeleted: (channelId, mid) => {
+      const message = chatStore.applyDelete(channelId, mid);
+      if (message) chatPanels?.updateMessage(channelId, message);
+      refreshUnread(channelId);
+    },
+    onChannelReaction: (channelId, mid, emoji, username, add) => {
+      const message = chatStore.applyReaction(channelId, mid, emoji, username, add);
+      if (message) chatPanels?.updateMessage(channelId, message);
+    },
+    onChannelList: (channelIds) => {
+      channelProvider.retainChannels(channelIds);
+      void chatStore.retainChannels(channelIds);
+      chatPanels?.retainChannels(channelIds);
+    },
+    onChannelRemoved: (channelId, reason) => {
+      const name = channelProvider.getChannel(channelId)?.name ?? 'a channel';
+      channelProvider.removeChannel(channelId);
+      void chatStore.forgetChannel(channelId);
+      chatPanels?.close(channelId);
+      vscode.window.showInformationMessage(reason === 'kicked'
+        ? `You were removed from "${name}"`
+        : `Channel "${name}" was deleted`);
+    },
+    onChannelRoleChange: (channelId, username, role) => {
+      channelProvider.setMemberRole(channelId, username, role);
+      chatPanels?.refreshChannel(channelId);
+    },
+    onChannelRenamed: (channelId, name) => {
+      channelProvider.renameChannel(channelId, name);
+      chatPanels?.refreshChannel(channelId);
+    },
+    onInviteCreated: (_channelId, invite) => {
+      vscode.window.showInformationMessage(
+        `Invite code: ${invite.code} (${describeInvite(invite)})`,
+        'Copy Code'
+      ).then((action) => {
+        if (action === 'Copy Code') {
+          vscode.env.clipboard.writeText(invite.code);
+        }
+      });
+    },
+    onInviteList: (channelId, invites) => {
+      void showInvites(channelId, invites);
+    },
+    onInviteRevoked: (_channelId, code) => {
+      vscode.window.showInformationMessage(`Invite ${code} revoked`);
+    },
+    // Close friends callbacks
+    onCloseFriendsUpdate: (usernames) => {
+      presenceProvider.setCloseFriends(usernames);
+    },
+    // Guest identity callbacks
+    onGuestToken: (username, guestToken) => {
+      void setGuestToken(context, username, guestToken);
+    },
+    onGuestNameReleased: async (username) => {
+      await setGuestToken(context, username, undefined);
+      wsClient?.disconnect();
+      connectionProvider.updateStatus(false);
+      updateStatusBar(false);
+      await context.globalState.update('vscord.username', undefined);
+      vscode.window.showInformationMessage(`VSCord: Released guest name ${username}`);
     },
   });
 
+  // Push privacy changes to the server as soon as they are made
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('vscord') && wsClient?.connected) {
+        wsClient.sendPreferences(readPreferences());
+      }
+    })
+  );
+
   // Create activity tracker
   activityTracker = new ActivityTracker((state) => {
     if (wsClient?.connected) {
@@ -131,13 +310,43 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       connectionProvider.updateStatus(false);
       updateStatusBar(false);
       await context.globalState.update('vscord.username', undefined);
-      await context.globalState.update('vscord.token', undefined);
+      await context.secrets.delete(TOKEN_SECRET_KEY);
+    })
+  );
+
+  // Follow GitHub sign-outs and token rotations
+  context.subscriptions.push(
+    vscode.authentication.onDidChangeSessions(async (e) => {
+      if (e.provider.id === 'github') {
+        await handleGitHubSessionChange(context, connectionProvider);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.releaseGuestName', async () => {
+      if (!wsClient?.connected || !wsClient.isGuest) {
+        vscode.window.showWarningMessage('Connect as a guest first');
+        return;
+      }
+      const confirm = await vscode.window.showWarningMessage(
+        `Release the guest name "${wsClient.username}"? Anyone will be able to claim it.`,
+        { modal: true },
+        'Release'
+      );
+      if (confirm === 'Release') {
+        wsClient.releaseGuestName();
+      }
     })
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand('vscord.refresh', () => {
       presenceProvider.refresh();
+      // Pick up anyone followed or unfollowed on GitHub since connecting
+      if (wsClient?.connected && !wsClient.isGuest) {
+        wsClient.refreshRelationships();
+      }
     })
   );
 
@@ -196,14 +405,225 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     vscode.commands.registerCommand('vscord.leaveChannel', async (item?: { channelId?: string }) => {
       if (!wsClient?.connected) return;
       const channelId = item?.channelId;
+      const channel = channelId ? channelProvider.getChannel(channelId) : undefined;
+      if (channel?.self && channel.roles?.[channel.self] === 'owner') {
+        vscode.window.showWarningMessage('Transfer ownership before leaving this channel');
+        return;
+      }
       if (channelId) {
         wsClient.leaveChannel(channelId);
         channelProvider.removeChannel(channelId);
+        void chatStore.forgetChannel(channelId);
+        chatPanels?.close(channelId);
         vscode.window.showInformationMessage('Left channel');
       }
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.openChannelChat', (item?: { channelId?: string }) => {
+      if (!item?.channelId) return;
+      chatPanels?.show(item.channelId);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.shareSelection', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.selection.isEmpty) {
+        vscode.window.showWarningMessage('Select some code to share');
+        return;
+      }
+      if (!wsClient?.connected) {
+        vscode.window.showWarningMessage('Not connected to VSCord');
+        return;
+      }
+
+      const channels = channelProvider.getChannels();
+      if (channels.length === 0) {
+        vscode.window.showWarningMessage('Join a channel first');
+        return;
+      }
+
+      const { document, selection } = editor;
+      const code = document.getText(selection);
+      if (Buffer.byteLength(code) > MAX_ATTACHMENT_BYTES) {
+        vscode.window.showErrorMessage(`Selection is larger than ${MAX_ATTACHMENT_BYTES / 1024} KB`);
+        return;
+      }
+
+      const picked = channels.length === 1
+        ? { channel: channels[0] }
+        : await vscode.window.showQuickPick(
+          channels.map(channel => ({ label: channel.name, channel })),
+          { placeHolder: 'Share to which channel?' }
+        );
+      if (!picked?.channel) return;
+
+      const comment = await vscode.window.showInputBox({
+        prompt: `Add a message for "${picked.channel.name}" (optional)`,
+        placeHolder: 'Use @username to mention someone',
+      });
+      if (comment === undefined) return;
+
+      // A selection ending at the start of a line does not include that line
+      const endLine = selection.end.character === 0 && selection.end.line > selection.start.line
+        ? selection.end.line
+        : selection.end.line + 1;
+      const attachment: ChatAttachment = {
+        kind: 'code',
+        code,
+        languageId: document.languageId,
+        path: vscode.workspace.asRelativePath(document.uri, false),
+        startLine: selection.start.line + 1,
+        endLine,
+      };
+      wsClient?.sendChannelMessage(picked.channel.id, comment.trim(), { attachments: [attachment] });
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.markChannelRead', async (item?: { channelId?: string }) => {
+      if (!item?.channelId) return;
+      await chatStore.markRead(item.channelId);
+      refreshUnread(item.channelId);
+    })
+  );
+
+  // Channel administration (roles are enforced by the server)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.kickMember', async (item?: ChannelMemberArg) => {
+      if (!wsClient?.connected || !item?.channelId || !item.member) return;
+      const confirm = await vscode.window.showWarningMessage(
+        `Remove ${item.member.username} from this channel?`,
+        { modal: true },
+        'Remove'
+      );
+      if (confirm === 'Remove') {
+        wsClient.kickMember(item.channelId, item.member.username);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.promoteMember', (item?: ChannelMemberArg) => {
+      if (!wsClient?.connected || !item?.channelId || !item.member) return;
+      wsClient.setMemberRole(item.channelId, item.member.username, 'admin');
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.demoteMember', (item?: ChannelMemberArg) => {
+      if (!wsClient?.connected || !item?.channelId || !item.member) return;
+      wsClient.setMemberRole(item.channelId, item.member.username, 'member');
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.transferOwnership', async (item?: ChannelMemberArg) => {
+      if (!wsClient?.connected || !item?.channelId || !item.member) return;
+      const confirm = await vscode.window.showWarningMessage(
+        `Make ${item.member.username} the owner of this channel? You will become an admin.`,
+        { modal: true },
+        'Transfer'
+      );
+      if (confirm === 'Transfer') {
+        wsClient.transferOwnership(item.channelId, item.member.username);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.renameChannel', async (item?: { channelId?: string }) => {
+      if (!wsClient?.connected || !item?.channelId) return;
+      const name = await vscode.window.showInputBox({
+        prompt: 'Enter new channel name',
+        value: channelProvider.getChannel(item.channelId)?.name,
+        validateInput: (v) => {
+          if (!v || v.trim().length < 3) return 'Name must be at least 3 characters';
+          if (v.trim().length > 30) return 'Name must be at most 30 characters';
+          return null;
+        },
+      });
+      if (name) {
+        wsClient.renameChannel(item.channelId, name.trim());
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.deleteChannel', async (item?: { channelId?: string }) => {
+      if (!wsClient?.connected || !item?.channelId) return;
+      const name = channelProvider.getChannel(item.channelId)?.name ?? 'this channel';
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete "${name}" for all members? This cannot be undone.`,
+        { modal: true },
+        'Delete'
+      );
+      if (confirm === 'Delete') {
+        wsClient.deleteChannel(item.channelId);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.createInvite', async (item?: { channelId?: string }) => {
+      if (!wsClient?.connected || !item?.channelId) return;
+
+      const expiry = await vscode.window.showQuickPick(
+        ['1 hour', '1 day', '7 days'],
+        { placeHolder: 'When should this invite expire?' }
+      );
+      if (!expiry) return;
+
+      const uses = await vscode.window.showQuickPick(
+        ['Single use', '5 uses', '25 uses', 'Unlimited'],
+        { placeHolder: 'How many people can join with it?' }
+      );
+      if (!uses) return;
+
+      const expiryMs: Record<string, number> = {
+        '1 hour': 3600000,
+        '1 day': 86400000,
+        '7 days': 604800000,
+      };
+      const maxUses: Record<string, number | undefined> = {
+        'Single use': 1,
+        '5 uses': 5,
+        '25 uses': 25,
+        'Unlimited': undefined,
+      };
+
+      wsClient.createInvite(item.channelId, expiryMs[expiry], maxUses[uses]);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.listInvites', (item?: { channelId?: string }) => {
+      if (!wsClient?.connected || !item?.channelId) return;
+      wsClient.listInvites(item.channelId);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('vscord.toggleCloseFriend', (item?: { user?: UserStatus }) => {
+      if (!wsClient?.connected) {
+        vscode.window.showWarningMessage('Connect to VSCord first');
+        return;
+      }
+      const username = item?.user?.username;
+      if (!username) return;
+
+      if (presenceProvider.isCloseFriend(username)) {
+        wsClient.removeCloseFriend(username);
+        vscode.window.showInformationMessage(`Removed ${username} from close friends`);
+      } else {
+        wsClient.addCloseFriend(username);
+        vscode.window.showInformationMessage(`Added ${username} to close friends`);
+      }
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('vscord.setStatus', async () => {
       if (!wsClient?.connected) {
@@ -216,7 +636,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       });
       if (text) {
         // Extract emoji if present at start
-        const emojiMatch = text.match(/^(\p{Emoji_Presentation}|\p{Emoji}\uFE0F?)\s*/u);
+        const emojiMatch = text.match(
+          /^(\p{Extended_Pictographic}(?:\p{Emoji_Modifier}|\uFE0F|\u200D\p{Extended_Pictographic})*|\p{Regional_Indicator}{2})\s*/u
+        );
         const emoji = emojiMatch ? emojiMatch[1] : undefined;
         const statusText = emojiMatch ? text.slice(emojiMatch[0].length) : text;
 
@@ -248,12 +670,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   );
 
   // Try auto-connect with stored credentials
+  await migrateStoredToken(context);
   const storedUsername = context.globalState.get<string>('vscord.username');
-  const storedToken = context.globalState.get<string>('vscord.token');
+  const storedToken = await getCurrentGitHubToken(context);
 
   if (storedUsername) {
     try {
-      await wsClient.connect(storedUsername, storedToken);
+      await wsClient.connect(storedUsername, storedToken, storedToken ? undefined : getGuestToken(context, storedUsername));
       connectionProvider.updateStatus(true, storedUsername);
       updateStatusBar(true, storedUsername);
       activityTracker.start();
@@ -274,7 +697,7 @@ async function connectWithGitHub(
 ): Promise<void> {
   try {
     // Get GitHub session
-    const session = await vscode.authentication.getSession('github', ['read:user'], {
+    const session = await vscode.authentication.getSession('github', GITHUB_SCOPES, {
       createIfNone: true,
     });
 
@@ -286,9 +709,9 @@ async function connectWithGitHub(
     const username = session.account.label;
     const token = session.accessToken;
 
-    // Store credentials
+    // Store credentials - the token only ever goes to SecretStorage
     await context.globalState.update('vscord.username', username);
-    await context.globalState.update('vscord.token', token);
+    await context.secrets.store(TOKEN_SECRET_KEY, token);
 
     // Connect
     await wsClient?.connect(username, token);
@@ -302,6 +725,75 @@ async function connectWithGitHub(
   }
 }
 
+/**
+ * Move a token stored by older versions out of globalState,
+ * which is plain text on disk and synced by Settings Sync
+ */
+async function migrateStoredToken(context: vscode.ExtensionContext): Promise<void> {
+  const legacyToken = context.globalState.get<string>('vscord.token');
+  if (legacyToken === undefined) return;
+
+  if (!await context.secrets.get(TOKEN_SECRET_KEY)) {
+    await context.secrets.store(TOKEN_SECRET_KEY, legacyToken);
+  }
+  await context.globalState.update('vscord.token', undefined);
+  console.log('[VSCord] Migrated GitHub token to SecretStorage');
+}
+
+/**
+ * Get the stored GitHub token, refreshed from the live session if it rotated.
+ * Clears the stored token if the session no longer exists.
+ */
+async function getCurrentGitHubToken(context: vscode.ExtensionContext): Promise<string | undefined> {
+  const storedToken = await context.secrets.get(TOKEN_SECRET_KEY);
+  if (!storedToken) return undefined;
+
+  const session = await vscode.authentication.getSession('github', GITHUB_SCOPES, { silent: true });
+  if (!session) {
+    await context.secrets.delete(TOKEN_SECRET_KEY);
+    return undefined;
+  }
+  if (session.accessToken !== storedToken) {
+    await context.secrets.store(TOKEN_SECRET_KEY, session.accessToken);
+  }
+  return session.accessToken;
+}
+
+/**
+ * Re-authenticate when the GitHub session rotates; disconnect when it is revoked
+ */
+async function handleGitHubSessionChange(
+  context: vscode.ExtensionContext,
+  connectionProvider: ConnectionProvider
+): Promise<void> {
+  const storedToken = await context.secrets.get(TOKEN_SECRET_KEY);
+  if (!storedToken) return; // Guest or signed out - nothing to follow
+
+  const session = await vscode.authentication.getSession('github', GITHUB_SCOPES, { silent: true });
+  if (!session) {
+    wsClient?.disconnect();
+    connectionProvider.updateStatus(false);
+    updateStatusBar(false);
+    await context.secrets.delete(TOKEN_SECRET_KEY);
+    await context.globalState.update('vscord.username', undefined);
+    vscode.window.showWarningMessage('VSCord: Disconnected because your GitHub session was signed out');
+    return;
+  }
+
+  if (session.accessToken === storedToken) return;
+
+  const username = session.account.label;
+  await context.globalState.update('vscord.username', username);
+  await context.secrets.store(TOKEN_SECRET_KEY, session.accessToken);
+  try {
+    await wsClient?.connect(username, session.accessToken);
+    connectionProvider.updateStatus(true, username);
+    updateStatusBar(true, username);
+  } catch (error) {
+    vscode.window.showErrorMessage(`VSCord: Failed to re-authenticate - ${error}`);
+  }
+}
+
 /**
  * Connect as guest
  */
@@ -325,9 +817,9 @@ async function connectAsGuest(
 
   try {
     await context.globalState.update('vscord.username', username);
-    await context.globalState.update('vscord.token', undefined);
+    await context.secrets.delete(TOKEN_SECRET_KEY);
 
-    await wsClient?.connect(username);
+    await wsClient?.connect(username, undefined, getGuestToken(context, username));
     connectionProvider.updateStatus(true, username);
     updateStatusBar(true, `${username} (Guest)`);
     activityTracker?.start();
@@ -338,6 +830,54 @@ async function connectAsGuest(
   }
 }
 
+/**
+ * Get the credential for a guest name claimed from this machine
+ */
+function getGuestToken(context: vscode.ExtensionContext, username: string): string | undefined {
+  return context.globalState.get<Record<string, string>>('vscord.guestTokens', {})[username];
+}
+
+/**
+ * Store (or forget) the credential for a guest name
+ */
+async function setGuestToken(
+  context: vscode.ExtensionContext,
+  username: string,
+  guestToken: string | undefined
+): Promise<void> {
+  const tokens = { ...context.globalState.get<Record<string, string>>('vscord.guestTokens', {}) };
+  if (guestToken) {
+    tokens[username] = guestToken;
+  } else {
+    delete tokens[username];
+  }
+  await context.globalState.update('vscord.guestTokens', tokens);
+}
+
+/**
+ * Read privacy preferences from settings
+ */
+function readPreferences(): UserPreferences {
+  const config = vscode.workspace.getConfiguration('vscord');
+  return {
+    visibilityMode: config.get<VisibilityMode>('visibilityMode', 'everyone'),
+    shareProjectName: config.get<boolean>('shareProjectName', true),
+    shareLanguage: config.get<boolean>('shareLanguage', true),
+    shareActivity: config.get<boolean>('shareActivity', true),
+  };
+}
+
+/**
+ * Show reconnect progress in the status bar
+ */
+function updateStatusBarReconnecting(attempt: number): void {
+  if (!statusBarItem) return;
+
+  statusBarItem.text = `$(sync~spin) Reconnecting (attempt ${attempt})`;
+  statusBarItem.tooltip = 'VSCord: Connection lost, reconnecting...';
+  statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+}
+
 /**
  * Update status bar
  */
@@ -359,4 +899,5 @@ export function deactivate(): void {
   console.log('[VSCord] Extension deactivating...');
   wsClient?.disconnect();
   activityTracker?.dispose();
+  chatPanels?.dispose();
 }
@@ -4,13 +4,14 @@
  */
 
 import * as vscode from 'vscode';
-import type { UserStatus } from '../../shared/types';
+import type { UserStatus, ChannelRole } from '../../shared/types';
 
-export class PresenceProvider implements vscode.TreeDataProvider<PresenceItem> {
-  private _onDidChangeTreeData = new vscode.EventEmitter<PresenceItem | undefined | null | void>();
+export class PresenceProvider implements vscode.TreeDataProvider<PresenceTreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<PresenceTreeItem | undefined | null | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
   private users: UserStatus[] = [];
+  private closeFriends: Set<string> = new Set();
 
   /**
    * Update user list
@@ -20,17 +21,35 @@ export class PresenceProvider implements vscode.TreeDataProvider<PresenceItem> {
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Replace the close friends list
+   */
+  setCloseFriends(usernames: string[]): void {
+    this.closeFriends = new Set(usernames);
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Check if a user is a close friend
+   */
+  isCloseFriend(username: string): boolean {
+    return this.closeFriends.has(username);
+  }
+
   /**
    * Get tree item
    */
-  getTreeItem(element: PresenceItem): vscode.TreeItem {
+  getTreeItem(element: PresenceTreeItem): vscode.TreeItem {
     return element;
   }
 
   /**
    * Get children
    */
-  getChildren(element?: PresenceItem): PresenceItem[] {
+  getChildren(element?: PresenceTreeItem): PresenceTreeItem[] {
+    if (element instanceof FriendGroupItem) {
+      return element.users.map(user => new PresenceItem(user));
+    }
     if (element) return [];
 
     // Sort: Online first, then by activity priority
@@ -42,7 +61,15 @@ export class PresenceProvider implements vscode.TreeDataProvider<PresenceItem> {
       return a.username.localeCompare(b.username);
     });
 
-    return sorted.map(user => new PresenceItem(user));
+    // Close friends get their own group above everyone else
+    const close = sorted.filter(user => this.closeFriends.has(user.username));
+    const others = sorted.filter(user => !this.closeFriends.has(user.username));
+
+    const items: PresenceTreeItem[] = [];
+    if (close.length > 0) {
+      items.push(new FriendGroupItem('Close Friends', close));
+    }
+    return items.concat(others.map(user => new PresenceItem(user)));
   }
 
   /**
@@ -53,6 +80,22 @@ export class PresenceProvider implements vscode.TreeDataProvider<PresenceItem> {
   }
 }
 
+type PresenceTreeItem = PresenceItem | FriendGroupItem;
+
+/**
+ * Collapsible group of users
+ */
+class FriendGroupItem extends vscode.TreeItem {
+  constructor(label: string, public readonly users: UserStatus[]) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+
+    const online = users.filter(u => u.status === 'Online' || u.status === 'Away').length;
+    this.description = `${online}/${users.length} online`;
+    this.iconPath = new vscode.ThemeIcon('star-full', new vscode.ThemeColor('charts.yellow'));
+    this.contextValue = 'friendGroup';
+  }
+}
+
 /**
  * Tree item for a user
  */
@@ -144,6 +187,7 @@ export class ConnectionProvider implements vscode.TreeDataProvider<ConnectionIte
 
   private connected = false;
   private username: string | null = null;
+  private reconnectAttempt: number | null = null;
 
   /**
    * Update connection status
@@ -151,6 +195,17 @@ export class ConnectionProvider implements vscode.TreeDataProvider<ConnectionIte
   updateStatus(connected: boolean, username?: string): void {
     this.connected = connected;
     this.username = username ?? null;
+    this.reconnectAttempt = null;
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /**
+   * Show an automatic reconnect in progress
+   */
+  setReconnecting(attempt: number, username?: string): void {
+    this.connected = false;
+    this.username = username ?? null;
+    this.reconnectAttempt = attempt;
     this._onDidChangeTreeData.fire(undefined);
   }
 
@@ -161,11 +216,17 @@ export class ConnectionProvider implements vscode.TreeDataProvider<ConnectionIte
   getChildren(): ConnectionItem[] {
     if (this.connected && this.username) {
       return [
-        new ConnectionItem('Connected', `as ${this.username}`, true),
+        new ConnectionItem('Connected', `as ${this.username}`, 'connected'),
+      ];
+    }
+    if (this.reconnectAttempt !== null) {
+      return [
+        new ConnectionItem(`Reconnecting (attempt ${this.reconnectAttempt})`,
+          this.username ? `as ${this.username}` : '', 'reconnecting'),
       ];
     }
     return [
-      new ConnectionItem('Disconnected', 'Click to connect', false),
+      new ConnectionItem('Disconnected', 'Click to connect', 'disconnected'),
     ];
   }
 }
@@ -174,15 +235,16 @@ class ConnectionItem extends vscode.TreeItem {
   constructor(
     label: string,
     description: string,
-    connected: boolean
+    state: 'connected' | 'reconnecting' | 'disconnected'
   ) {
     super(label, vscode.TreeItemCollapsibleState.None);
     this.description = description;
-    this.iconPath = new vscode.ThemeIcon(
-      connected ? 'plug' : 'debug-disconnect',
-      new vscode.ThemeColor(connected ? 'charts.green' : 'charts.red')
-    );
-    if (!connected) {
+    this.iconPath = state === 'connected'
+      ? new vscode.ThemeIcon('plug', new vscode.ThemeColor('charts.green'))
+      : state === 'reconnecting'
+        ? new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('charts.yellow'))
+        : new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('charts.red'));
+    if (state === 'disconnected') {
       this.command = {
         command: 'vscord.connectGitHub',
         title: 'Connect GitHub',
@@ -199,7 +261,10 @@ export interface ChannelData {
   id: string;
   name: string;
   members: UserStatus[];
-  inviteCode?: string;
+  roles?: Record<string, ChannelRole>;  // username → role
+  self?: string;                        // our username, to derive what we may manage
+  unread?: number;                      // chat messages not yet read
+  capacity?: number;                    // max members
 }
 
 export class ChannelProvider implements vscode.TreeDataProvider<ChannelTreeItem> {
@@ -212,7 +277,19 @@ export class ChannelProvider implements vscode.TreeDataProvider<ChannelTreeItem>
    * Add or update a channel
    */
   updateChannel(channel: ChannelData): void {
-    this.channels.set(channel.id, channel);
+    const unread = channel.unread ?? this.channels.get(channel.id)?.unread;
+    this.channels.set(channel.id, { ...channel, unread });
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /**
+   * Set a channel's unread message count
+   */
+  setUnreadCount(channelId: string, count: number): void {
+    const channel = this.channels.get(channelId);
+    if (!channel || channel.unread === count) return;
+
+    channel.unread = count;
     this._onDidChangeTreeData.fire(undefined);
   }
 
@@ -263,6 +340,41 @@ export class ChannelProvider implements vscode.TreeDataProvider<ChannelTreeItem>
     this._onDidChangeTreeData.fire(undefined);
   }
 
+  /**
+   * Update a member's role
+   */
+  setMemberRole(channelId: string, username: string, role: ChannelRole): void {
+    const channel = this.channels.get(channelId);
+    if (!channel) return;
+
+    channel.roles = { ...channel.roles, [username]: role };
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /**
+   * Rename a channel
+   */
+  renameChannel(channelId: string, name: string): void {
+    const channel = this.channels.get(channelId);
+    if (!channel) return;
+
+    channel.name = name;
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /**
+   * Drop channels the user is no longer a member of
+   */
+  retainChannels(channelIds: string[]): void {
+    const keep = new Set(channelIds);
+    for (const id of this.channels.keys()) {
+      if (!keep.has(id)) {
+        this.channels.delete(id);
+      }
+    }
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
   /**
    * Get channel by ID
    */
@@ -270,6 +382,13 @@ export class ChannelProvider implements vscode.TreeDataProvider<ChannelTreeItem>
     return this.channels.get(channelId);
   }
 
+  /**
+   * Get all joined channels
+   */
+  getChannels(): ChannelData[] {
+    return Array.from(this.channels.values());
+  }
+
   getTreeItem(element: ChannelTreeItem): vscode.TreeItem {
     return element;
   }
@@ -291,7 +410,7 @@ export class ChannelProvider implements vscode.TreeDataProvider<ChannelTreeItem>
         const bOrder = statusOrder[b.status] ?? 4;
         return aOrder - bOrder;
       });
-      return sorted.map(m => new ChannelMemberItem(m, element.channel.id));
+      return sorted.map(m => new ChannelMemberItem(m, element.channel));
     }
 
     return [];
@@ -304,34 +423,59 @@ export class ChannelProvider implements vscode.TreeDataProvider<ChannelTreeItem>
 
 type ChannelTreeItem = ChannelItem | ChannelMemberItem | NoChannelsItem;
 
+/**
+ * Our own role in a channel
+ */
+function selfRole(channel: ChannelData): ChannelRole {
+  return (channel.self && channel.roles?.[channel.self]) || 'member';
+}
+
 class ChannelItem extends vscode.TreeItem {
+  public readonly channelId: string;
+
   constructor(public readonly channel: ChannelData) {
     super(channel.name, vscode.TreeItemCollapsibleState.Expanded);
+    this.channelId = channel.id;
 
     const online = channel.members.filter(m => m.status === 'Online' || m.status === 'Away').length;
-    this.description = `${online}/${channel.members.length} online`;
+    this.description = channel.unread
+      ? `${channel.unread} unread · ${online}/${channel.members.length} online`
+      : `${online}/${channel.members.length} online`;
     this.iconPath = new vscode.ThemeIcon('organization', new vscode.ThemeColor('charts.blue'));
-    this.contextValue = 'channel';
 
-    // Tooltip with invite code
+    // Space-separated flags, matched by regex in package.json menus
+    const role = selfRole(channel);
+    this.contextValue = [
+      'channel',
+      role !== 'member' ? 'renamable invites' : '',
+      role === 'owner' ? 'owned' : '',
+    ].filter(Boolean).join(' ');
+
+    // Tooltip
     const md = new vscode.MarkdownString();
     md.appendMarkdown(`### ${channel.name}\n\n`);
-    md.appendMarkdown(`**Members:** ${channel.members.length}\n\n`);
-    if (channel.inviteCode) {
-      md.appendMarkdown(`**Invite Code:** \`${channel.inviteCode}\`\n\n`);
-    }
+    md.appendMarkdown(channel.capacity
+      ? `**Members:** ${channel.members.length} of ${channel.capacity}\n\n`
+      : `**Members:** ${channel.members.length}\n\n`);
     this.tooltip = md;
   }
 }
 
 class ChannelMemberItem extends vscode.TreeItem {
+  public readonly channelId: string;
+
   constructor(
     public readonly member: UserStatus,
-    public readonly channelId: string
+    channel: ChannelData
   ) {
     super(member.username, vscode.TreeItemCollapsibleState.None);
+    this.channelId = channel.id;
 
+    const role = channel.roles?.[member.username] ?? 'member';
     const parts: string[] = [];
+    if (role !== 'member') {
+      parts.push(role);
+    }
     if (member.activity !== 'Idle' && member.activity !== 'Hidden') {
       parts.push(member.activity);
     }
@@ -353,7 +497,17 @@ class ChannelMemberItem extends vscode.TreeItem {
       this.iconPath = new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('charts.green'));
     }
 
-    this.contextValue = 'channelMember';
+    // Space-separated flags for the actions we may take on this member
+    const viewerRole = selfRole(channel);
+    const isSelf = member.username === channel.self;
+    const isOwner = viewerRole === 'owner' && !isSelf;
+    this.contextValue = [
+      'channelMember',
+      !isSelf && (isOwner ? role !== 'owner' : viewerRole === 'admin' && role === 'member') ? 'kickable' : '',
+      isOwner && role === 'member' ? 'promotable' : '',
+      isOwner && role === 'admin' ? 'demotable' : '',
+      isOwner ? 'transferable' : '',
+    ].filter(Boolean).join(' ');
   }
 }
 
@@ -0,0 +1,699 @@
+/**
+ * Channel Chat Panels
+ * One webview panel per channel, fed by postMessage rather than re-rendering
+ */
+
+import * as vscode from 'vscode';
+import crypto from 'crypto';
+import type { ChatStore } from './chatStore';
+import type { ChannelData } from '../providers';
+import type { ChannelHistoryEntry } from '../../shared/types';
+import { CHANNEL_MESSAGE_MAX_LENGTH } from '../../shared/types';
+
+/** What the panels need from the rest of the extension */
+export interface ChatPanelHost {
+  getChannel(channelId: string): ChannelData | undefined;
+  isConnected(): boolean;
+  sendMessage(channelId: string, content: string, replyTo?: string): void;
+  editMessage(channelId: string, mid: string, content: string): void;
+  deleteMessage(channelId: string, mid: string): void;
+  setReaction(channelId: string, mid: string, emoji: string, add: boolean): void;
+  requestOlder(channelId: string, before: string): void;
+  onRead(channelId: string): void;
+}
+
+/** Extension → webview */
+type PanelMessage =
+  | { type: 'reset'; messages: ChannelHistoryEntry[]; hasMore: boolean }
+  | { type: 'append'; message: ChannelHistoryEntry }
+  | { type: 'update'; message: ChannelHistoryEntry }
+  | { type: 'channel'; name: string; self?: string; canModerate: boolean; avatars: Record<string, string> }
+  | { type: 'connection'; connected: boolean };
+
+/** Webview → extension */
+type WebviewMessage =
+  | { type: 'ready' }
+  | { type: 'send'; content: string; replyTo?: string | null }
+  | { type: 'edit'; mid: string; content: string }
+  | { type: 'delete'; mid: string }
+  | { type: 'react'; mid: string; emoji: string; add: boolean }
+  | { type: 'loadOlder' };
+
+export class ChatPanels {
+  private panels: Map<string, vscode.WebviewPanel> = new Map();
+
+  constructor(private store: ChatStore, private host: ChatPanelHost) { }
+
+  /**
+   * Open or focus the chat panel for a channel
+   */
+  show(channelId: string): void {
+    const existing = this.panels.get(channelId);
+    if (existing) {
+      existing.reveal();
+      return;
+    }
+
+    const channel = this.host.getChannel(channelId);
+    const panel = vscode.window.createWebviewPanel(
+      'vscordChat',
+      channel?.name ?? 'Channel Chat',
+      vscode.ViewColumn.Beside,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [],
+      }
+    );
+    this.panels.set(channelId, panel);
+
+    panel.webview.onDidReceiveMessage((message: WebviewMessage) => {
+      this.handleWebviewMessage(channelId, message);
+    });
+    panel.onDidChangeViewState(() => {
+      if (panel.visible) void this.markRead(channelId);
+    });
+    panel.onDidDispose(() => {
+      this.panels.delete(channelId);
+    });
+
+    panel.webview.html = this.getHtml(panel.webview);
+  }
+
+  /**
+   * Show a live message in the channel's panel, if open
+   */
+  addMessage(channelId: string, message: ChannelHistoryEntry): void {
+    if (this.post(channelId, { type: 'append', message })) {
+      void this.markRead(channelId);
+    }
+  }
+
+  /**
+   * Whether the channel's panel is open and in view
+   */
+  isVisible(channelId: string): boolean {
+    return this.panels.get(channelId)?.visible ?? false;
+  }
+
+  /**
+   * Re-render a message after an edit, deletion or reaction
+   */
+  updateMessage(channelId: string, message: ChannelHistoryEntry): void {
+    this.post(channelId, { type: 'update', message });
+  }
+
+  /**
+   * Replace the panel's messages after history was merged into the store
+   */
+  refreshHistory(channelId: string): void {
+    this.post(channelId, this.resetMessage(channelId));
+  }
+
+  /**
+   * Push the channel name and member avatars after they change
+   */
+  refreshChannel(channelId: string): void {
+    const panel = this.panels.get(channelId);
+    const channel = this.host.getChannel(channelId);
+    if (!panel || !channel) return;
+
+    panel.title = channel.name;
+    this.post(channelId, this.channelMessage(channel));
+  }
+
+  /**
+   * Tell every panel whether messages can be sent
+   */
+  setConnected(connected: boolean): void {
+    for (const channelId of this.panels.keys()) {
+      this.post(channelId, { type: 'connection', connected });
+    }
+  }
+
+  /**
+   * Close a channel's panel once we are no longer a member
+   */
+  close(channelId: string): void {
+    this.panels.get(channelId)?.dispose();
+  }
+
+  /**
+   * Close panels for channels we no longer belong to
+   */
+  retainChannels(channelIds: string[]): void {
+    for (const channelId of [...this.panels.keys()]) {
+      if (!channelIds.includes(channelId)) this.close(channelId);
+    }
+  }
+
+  /**
+   * Dispose all panels
+   */
+  dispose(): void {
+    for (const panel of [...this.panels.values()]) {
+      panel.dispose();
+    }
+    this.panels.clear();
+  }
+
+  private handleWebviewMessage(channelId: string, message: WebviewMessage): void {
+    switch (message.type) {
+      case 'ready': {
+        const channel = this.host.getChannel(channelId);
+        if (channel) this.post(channelId, this.channelMessage(channel));
+        this.post(channelId, { type: 'connection', connected: this.host.isConnected() });
+        this.post(channelId, this.resetMessage(channelId));
+        void this.markRead(channelId);
+        break;
+      }
+      case 'send':
+      case 'edit': {
+        const content = typeof message.content === 'string' ? message.content.trim() : '';
+        if (!content || content.length > CHANNEL_MESSAGE_MAX_LENGTH || !this.host.isConnected()) break;
+        if (message.type === 'edit') {
+          this.host.editMessage(channelId, message.mid, content);
+        } else {
+          this.host.sendMessage(channelId, content, message.replyTo ?? undefined);
+        }
+        break;
+      }
+      case 'delete':
+        void this.confirmDelete(channelId, message.mid);
+        break;
+      case 'react':
+        this.host.setReaction(channelId, message.mid, message.emoji, message.add);
+        break;
+      case 'loadOlder': {
+        const oldest = this.store.getMessages(channelId)[0];
+        if (oldest && this.store.hasOlderMessages(channelId)) {
+          this.host.requestOlder(channelId, oldest.mid);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Post to a channel's panel. Returns true if the panel is visible.
+   */
+  private post(channelId: string, message: PanelMessage): boolean {
+    const panel = this.panels.get(channelId);
+    if (!panel) return false;
+    void panel.webview.postMessage(message);
+    return panel.visible;
+  }
+
+  private async confirmDelete(channelId: string, mid: string): Promise<void> {
+    const confirm = await vscode.window.showWarningMessage(
+      'Delete this message for everyone?',
+      { modal: true },
+      'Delete'
+    );
+    if (confirm === 'Delete') {
+      this.host.deleteMessage(channelId, mid);
+    }
+  }
+
+  private async markRead(channelId: string): Promise<void> {
+    await this.store.markRead(channelId);
+    this.host.onRead(channelId);
+  }
+
+  private resetMessage(channelId: string): PanelMessage {
+    return {
+      type: 'reset',
+      messages: this.store.getMessages(channelId),
+      hasMore: this.store.hasOlderMessages(channelId),
+    };
+  }
+
+  private channelMessage(channel: ChannelData): PanelMessage {
+    const avatars: Record<string, string> = {};
+    for (const member of channel.members) {
+      if (member.avatar?.startsWith('https://')) {
+        avatars[member.username] = member.avatar;
+      }
+    }
+    const self = channel.self;
+    const canModerate = !!self && (channel.roles?.[self] ?? 'member') !== 'member';
+    return { type: 'channel', name: channel.name, self, canModerate, avatars };
+  }
+
+  /**
+   * Static shell; all content arrives through postMessage and is set via textContent
+   */
+  private getHtml(webview: vscode.Webview): string {
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const csp = [
+      "default-src 'none'",
+      `img-src ${webview.cspSource} https:`,
+      `style-src 'nonce-${nonce}'`,
+      `script-src 'nonce-${nonce}'`,
+    ].join('; ');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style nonce="${nonce}">
+    :root {
+      --bg: var(--vscode-editor-background);
+      --fg: var(--vscode-editor-foreground);
+      --border: var(--vscode-panel-border);
+      --muted: var(--vscode-descriptionForeground);
+    }
+
+    body {
+      font-family: var(--vscode-font-family);
+      background: var(--bg);
+      color: var(--fg);
+      margin: 0;
+      height: 100vh;
+      display: flex;
+      flex-direction: column;
+    }
+
+    #banner {
+      display: none;
+      padding: 6px 12px;
+      background: var(--vscode-inputValidation-warningBackground);
+      border-bottom: 1px solid var(--vscode-inputValidation-warningBorder);
+    }
+
+    #banner.visible { display: block; }
+
+    #log {
+      flex: 1;
+      overflow-y: auto;
+      padding: 12px;
+    }
+
+    #older {
+      display: none;
+      margin: 0 auto 12px;
+    }
+
+    #older.visible { display: block; }
+
+    .message {
+      display: flex;
+      gap: 8px;
+      margin-bottom: 10px;
+    }
+
+    .avatar {
+      width: 28px;
+      height: 28px;
+      border-radius: 50%;
+      flex-shrink: 0;
+      background: var(--vscode-editorWidget-background);
+    }
+
+    .meta {
+      font-size: 12px;
+      color: var(--muted);
+    }
+
+    .meta strong {
+      color: var(--fg);
+      margin-right: 6px;
+    }
+
+    .body { flex: 1; min-width: 0; }
+
+    .content {
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+
+    .mentioned > .body > .content {
+      background: var(--vscode-editor-findMatchHighlightBackground);
+    }
+
+    .attachment {
+      margin-top: 4px;
+      border: 1px solid var(--border);
+    }
+
+    .attachment .source {
+      padding: 2px 6px;
+      font-size: 12px;
+      color: var(--muted);
+      border-bottom: 1px solid var(--border);
+    }
+
+    .attachment pre {
+      margin: 0;
+      padding: 6px;
+      overflow-x: auto;
+      font-family: var(--vscode-editor-font-family);
+      font-size: var(--vscode-editor-font-size);
+      background: var(--vscode-textCodeBlock-background);
+    }
+
+    .deleted .content {
+      font-style: italic;
+      color: var(--muted);
+    }
+
+    .replies {
+      margin-top: 6px;
+      padding-left: 10px;
+      border-left: 2px solid var(--border);
+    }
+
+    .replies:empty { display: none; }
+
+    .actions {
+      display: none;
+      gap: 2px;
+    }
+
+    .message:hover > .body > .actions { display: flex; }
+
+    .reactions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+    }
+
+    button.action {
+      color: var(--fg);
+      background: transparent;
+      padding: 0 4px;
+      font-size: 12px;
+    }
+
+    button.chip {
+      border: 1px solid var(--border);
+      border-radius: 10px;
+    }
+
+    button.chip.mine { border-color: var(--vscode-focusBorder); }
+
+    #mode {
+      display: none;
+      padding: 4px 12px;
+      font-size: 12px;
+      color: var(--muted);
+      border-top: 1px solid var(--border);
+    }
+
+    #mode.visible { display: block; }
+
+    .empty {
+      text-align: center;
+      color: var(--muted);
+      padding: 40px;
+    }
+
+    form {
+      display: flex;
+      gap: 8px;
+      padding: 8px 12px;
+      border-top: 1px solid var(--border);
+    }
+
+    textarea {
+      flex: 1;
+      resize: none;
+      font: inherit;
+      color: var(--vscode-input-foreground);
+      background: var(--vscode-input-background);
+      border: 1px solid var(--vscode-input-border, transparent);
+      padding: 6px;
+    }
+
+    button {
+      color: var(--vscode-button-foreground);
+      background: var(--vscode-button-background);
+      border: none;
+      padding: 4px 12px;
+      cursor: pointer;
+    }
+
+    button:disabled { opacity: 0.5; cursor: default; }
+  </style>
+</head>
+<body>
+  <div id="banner">Disconnected - reconnecting...</div>
+  <div id="log">
+    <button id="older" type="button">Load older messages</button>
+    <div id="messages"></div>
+  </div>
+  <div id="mode"><span id="mode-text"></span> <button id="cancel" type="button" class="action">Cancel</button></div>
+  <form id="composer">
+    <textarea id="input" rows="2" maxlength="${CHANNEL_MESSAGE_MAX_LENGTH}" placeholder="Message (Enter to send, Shift+Enter for a new line)"></textarea>
+    <button id="send" type="submit">Send</button>
+  </form>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const QUICK_REACTIONS = ['👍', '✅', '👀', '🎉', '❤️'];
+    const log = document.getElementById('log');
+    const list = document.getElementById('messages');
+    const older = document.getElementById('older');
+    const banner = document.getElementById('banner');
+    const mode = document.getElementById('mode');
+    const modeText = document.getElementById('mode-text');
+    const composer = document.getElementById('composer');
+    const input = document.getElementById('input');
+    const send = document.getElementById('send');
+    let avatars = {};
+    let self = '';
+    let canModerate = false;
+    let connected = true;
+    let replyTo = null;    // thread root being replied to
+    let editing = null;    // message being edited
+    const rows = new Map();  // mid → { message, row }
+
+    function button(label, title, onClick) {
+      const el = document.createElement('button');
+      el.type = 'button';
+      el.className = 'action';
+      el.textContent = label;
+      el.title = title;
+      el.addEventListener('click', onClick);
+      return el;
+    }
+
+    function fill(row, message) {
+      row.replaceChildren();
+      row.classList.toggle('deleted', !!message.deleted);
+      row.classList.toggle('mentioned', !message.deleted && (message.mentions || []).includes(self));
+
+      const avatar = document.createElement('img');
+      avatar.className = 'avatar';
+      avatar.alt = '';
+      if (avatars[message.id]) avatar.src = avatars[message.id];
+      avatar.dataset.user = message.id;
+
+      const body = document.createElement('div');
+      body.className = 'body';
+      const meta = document.createElement('div');
+      meta.className = 'meta';
+      const sender = document.createElement('strong');
+      sender.textContent = message.id;
+      meta.append(sender, new Date(message.ts).toLocaleString());
+      if (message.editedAt && !message.deleted) meta.append(' (edited)');
+
+      const content = document.createElement('div');
+      content.className = 'content';
+      content.textContent = message.deleted ? 'Message deleted' : message.content;
+      body.append(meta, content);
+      content.hidden = !message.deleted && !message.content;
+
+      for (const attachment of message.deleted ? [] : message.attachments || []) {
+        const block = document.createElement('div');
+        block.className = 'attachment';
+        const source = document.createElement('div');
+        source.className = 'source';
+        const lines = attachment.startLine === attachment.endLine
+          ? 'line ' + attachment.startLine
+          : 'lines ' + attachment.startLine + '-' + attachment.endLine;
+        source.textContent = attachment.path + ', ' + lines + ' (' + attachment.languageId + ')';
+        const pre = document.createElement('pre');
+        const code = document.createElement('code');
+        code.textContent = attachment.code;
+        pre.append(code);
+        block.append(source, pre);
+        body.append(block);
+      }
+
+      if (!message.deleted) {
+        const reactions = document.createElement('div');
+        reactions.className = 'reactions';
+        for (const [emoji, users] of Object.entries(message.reactions || {})) {
+          const mine = users.includes(self);
+          const chip = button(emoji + ' ' + users.length, users.join(', '), () => react(message.mid, emoji, !mine));
+          chip.classList.add('chip');
+          chip.classList.toggle('mine', mine);
+          reactions.append(chip);
+        }
+        body.append(reactions);
+
+        const actions = document.createElement('div');
+        actions.className = 'actions';
+        for (const emoji of QUICK_REACTIONS) {
+          actions.append(button(emoji, 'React ' + emoji, () => react(message.mid, emoji, true)));
+        }
+        actions.append(button('Reply', 'Reply in thread', () => startReply(message)));
+        if (message.id === self) {
+          actions.append(button('Edit', 'Edit message', () => startEdit(message)));
+        }
+        if (message.id === self || canModerate) {
+          actions.append(button('Delete', 'Delete message', () => vscode.postMessage({ type: 'delete', mid: message.mid })));
+        }
+        body.append(actions);
+      }
+
+      const replies = rows.get(message.mid)?.replies || document.createElement('div');
+      replies.className = 'replies';
+      body.append(replies);
+
+      row.append(avatar, body);
+      return replies;
+    }
+
+    function insert(message) {
+      if (rows.has(message.mid)) return update(message);
+      const row = document.createElement('div');
+      row.className = 'message';
+      const entry = { message, row, replies: null };
+      rows.set(message.mid, entry);
+      entry.replies = fill(row, message);
+
+      const parent = message.replyTo && rows.get(message.replyTo);
+      (parent ? parent.replies : list).append(row);
+    }
+
+    function update(message) {
+      const entry = rows.get(message.mid);
+      if (!entry) return;
+      entry.message = message;
+      entry.replies = fill(entry.row, message);
+    }
+
+    function react(mid, emoji, add) {
+      if (connected) vscode.postMessage({ type: 'react', mid, emoji, add });
+    }
+
+    function startReply(message) {
+      editing = null;
+      replyTo = message.replyTo || message.mid;
+      modeText.textContent = 'Replying to ' + message.id;
+      mode.classList.add('visible');
+      input.focus();
+    }
+
+    function startEdit(message) {
+      replyTo = null;
+      editing = message.mid;
+      modeText.textContent = 'Editing message';
+      mode.classList.add('visible');
+      input.value = message.content;
+      input.focus();
+    }
+
+    function resetMode() {
+      replyTo = null;
+      editing = null;
+      mode.classList.remove('visible');
+    }
+
+    function showEmpty() {
+      if (rows.size === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'empty';
+        empty.textContent = 'No messages yet';
+        list.append(empty);
+      }
+    }
+
+    function atBottom() {
+      return log.scrollHeight - log.scrollTop - log.clientHeight < 40;
+    }
+
+    function setConnected(value) {
+      connected = value;
+      banner.classList.toggle('visible', !connected);
+      send.disabled = !connected;
+    }
+
+    window.addEventListener('message', (event) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'reset': {
+          const stick = atBottom() || rows.size === 0;
+          const previousHeight = log.scrollHeight;
+          const previousTop = log.scrollTop;
+          list.replaceChildren();
+          rows.clear();
+          message.messages.forEach(insert);
+          older.classList.toggle('visible', message.hasMore);
+          showEmpty();
+          // Keep the reader's place when older history is prepended
+          log.scrollTop = stick ? log.scrollHeight : previousTop + (log.scrollHeight - previousHeight);
+          break;
+        }
+        case 'append': {
+          const stick = atBottom();
+          list.querySelector('.empty')?.remove();
+          insert(message.message);
+          if (stick) log.scrollTop = log.scrollHeight;
+          break;
+        }
+        case 'update':
+          update(message.message);
+          if (editing === message.message.mid && message.message.deleted) resetMode();
+          break;
+        case 'channel':
+          avatars = message.avatars;
+          self = message.self || '';
+          canModerate = message.canModerate;
+          document.title = message.name;
+          rows.forEach(entry => update(entry.message));
+          break;
+        case 'connection':
+          setConnected(message.connected);
+          break;
+      }
+    });
+
+    composer.addEventListener('submit', (event) => {
+      event.preventDefault();
+      const content = input.value.trim();
+      if (!content || !connected) return;
+      if (editing) {
+        vscode.postMessage({ type: 'edit', mid: editing, content });
+      } else {
+        vscode.postMessage({ type: 'send', content, replyTo });
+      }
+      input.value = '';
+      resetMode();
+    });
+
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        composer.requestSubmit();
+      } else if (event.key === 'Escape') {
+        if (editing) input.value = '';
+        resetMode();
+      }
+    });
+
+    document.getElementById('cancel').addEventListener('click', () => {
+      if (editing) input.value = '';
+      resetMode();
+    });
+    older.addEventListener('click', () => vscode.postMessage({ type: 'loadOlder' }));
+
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Chat Store
+ * Keeps recent channel chat in memory and tracks what has been read
+ */
+
+import * as vscode from 'vscode';
+import type { ChannelHistoryEntry } from '../../shared/types';
+
+const LAST_READ_KEY = 'vscord.lastRead';
+const MAX_MESSAGES_PER_CHANNEL = 500;
+
+export class ChatStore {
+  private messages: Map<string, ChannelHistoryEntry[]> = new Map();
+  private hasMore: Map<string, boolean> = new Map();
+  private lastRead: Record<string, string>;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.lastRead = context.globalState.get<Record<string, string>>(LAST_READ_KEY) ?? {};
+  }
+
+  /**
+   * Merge messages into a channel, ignoring ones already held
+   */
+  addMessages(channelId: string, entries: ChannelHistoryEntry[]): void {
+    const existing = this.messages.get(channelId) ?? [];
+    const known = new Set(existing.map(m => m.mid));
+    const merged = existing.concat(entries.filter(m => !known.has(m.mid)));
+    merged.sort((a, b) => compareIds(a.mid, b.mid));
+    this.messages.set(channelId, merged.slice(-MAX_MESSAGES_PER_CHANNEL));
+  }
+
+  /**
+   * Merge a history page. Whether older history exists is only known
+   * when the page reaches back to the oldest message we hold.
+   */
+  addHistoryPage(channelId: string, entries: ChannelHistoryEntry[], hasMore: boolean): void {
+    this.addMessages(channelId, entries);
+
+    // First backfill of a channel: its backlog is not news
+    if (!(channelId in this.lastRead) && entries.length > 0) {
+      void this.markRead(channelId);
+    }
+
+    if (entries.length === 0 || entries[0]?.mid === this.getMessages(channelId)[0]?.mid) {
+      this.hasMore.set(channelId, hasMore);
+    }
+  }
+
+  getMessages(channelId: string): ChannelHistoryEntry[] {
+    return this.messages.get(channelId) ?? [];
+  }
+
+  hasOlderMessages(channelId: string): boolean {
+    return this.hasMore.get(channelId) ?? false;
+  }
+
+  /**
+   * Apply an edit. Returns the updated message if we hold it.
+   */
+  applyEdit(channelId: string, mid: string, content: string, editedAt: number): ChannelHistoryEntry | undefined {
+    const message = this.find(channelId, mid);
+    if (message) {
+      message.content = content;
+      message.editedAt = editedAt;
+    }
+    return message;
+  }
+
+  /**
+   * Turn a message into a tombstone. Returns it if we hold it.
+   */
+  applyDelete(channelId: string, mid: string): ChannelHistoryEntry | undefined {
+    const message = this.find(channelId, mid);
+    if (message) {
+      message.content = '';
+      message.deleted = true;
+      delete message.reactions;
+    }
+    return message;
+  }
+
+  /**
+   * Add or remove one user's reaction. Returns the message if we hold it.
+   */
+  applyReaction(
+    channelId: string,
+    mid: string,
+    emoji: string,
+    username: string,
+    add: boolean
+  ): ChannelHistoryEntry | undefined {
+    const message = this.find(channelId, mid);
+    if (!message) return undefined;
+
+    const reactions = { ...message.reactions };
+    const users = (reactions[emoji] ?? []).filter(u => u !== username);
+    if (add) users.push(username);
+    if (users.length > 0) {
+      reactions[emoji] = users;
+    } else {
+      delete reactions[emoji];
+    }
+    message.reactions = reactions;
+    return message;
+  }
+
+  /**
+   * Count messages from others newer than the last one read
+   */
+  unreadCount(channelId: string, self?: string): number {
+    const lastRead = this.lastRead[channelId];
+    return this.getMessages(channelId)
+      .filter(m => m.id !== self && !m.deleted && (!lastRead || compareIds(m.mid, lastRead) > 0))
+      .length;
+  }
+
+  /**
+   * Mark everything held for a channel as read
+   */
+  async markRead(channelId: string): Promise<void> {
+    const newest = this.getMessages(channelId).at(-1);
+    if (!newest) return;
+
+    this.lastRead = { ...this.lastRead, [channelId]: newest.mid };
+    await this.context.globalState.update(LAST_READ_KEY, this.lastRead);
+  }
+
+  private find(channelId: string, mid: string): ChannelHistoryEntry | undefined {
+    return this.getMessages(channelId).find(m => m.mid === mid);
+  }
+
+  /**
+   * Drop a channel we are no longer in
+   */
+  async forgetChannel(channelId: string): Promise<void> {
+    this.messages.delete(channelId);
+    this.hasMore.delete(channelId);
+    if (channelId in this.lastRead) {
+      this.lastRead = { ...this.lastRead };
+      delete this.lastRead[channelId];
+      await this.context.globalState.update(LAST_READ_KEY, this.lastRead);
+    }
+  }
+
+  /**
+   * Drop every channel not in the list
+   */
+  async retainChannels(channelIds: string[]): Promise<void> {
+    const keep = new Set(channelIds);
+    for (const id of [...this.messages.keys()]) {
+      if (!keep.has(id)) {
+        this.messages.delete(id);
+        this.hasMore.delete(id);
+      }
+    }
+
+    const stale = Object.keys(this.lastRead).filter(id => !keep.has(id));
+    if (stale.length > 0) {
+      this.lastRead = Object.fromEntries(Object.entries(this.lastRead).filter(([id]) => keep.has(id)));
+      await this.context.globalState.update(LAST_READ_KEY, this.lastRead);
+    }
+  }
+}
+
+/**
+ * Message ids are decimal strings that can outgrow a double
+ */
+function compareIds(a: string, b: string): number {
+  return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+}
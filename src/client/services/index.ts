@@ -2,3 +2,5 @@ export { WsClient, type WsClientOptions } from './wsClient';
 export { ActivityTracker, type ActivityState } from './activityTracker';
 export { AnalyticsService, type ActivityRecord, type AnalyticsSummary } from './analyticsService';
 export { AnalyticsDashboard } from './analyticsDashboard';
+export { ChatStore } from './chatStore';
+export { ChatPanels, type ChatPanelHost } from './chatPanel';
@@ -8,6 +8,7 @@ import type {
   ServerMessage,
   ClientMessage,
   UserStatus,
+  UserPreferences,
   StatusType,
   ActivityType,
   SyncMessage,
@@ -22,8 +23,17 @@ import type {
   ChannelCreatedMessage,
   JoinSuccessMessage,
   ChannelChatMessage,
+  ChannelHistoryEntry,
+  ChatAttachment,
+  ReactionMessage,
+  CloseFriendsListMessage,
+  ErrorMessage,
+  KickMemberMessage,
+  ChannelInvite,
+  ChannelRole,
 } from '../../shared/types';
-import { HEARTBEAT_INTERVAL_MS } from '../../shared/types';
+import { HEARTBEAT_INTERVAL_MS, CHANNEL_HISTORY_PAGE_SIZE } from '../../shared/types';
+import { parseMessage, validateServerMessage } from '../../shared/validation';
 import type { ChannelData } from '../providers';
 
 export interface WsClientOptions {
@@ -31,78 +41,124 @@ export interface WsClientOptions {
   onUserListUpdate: (users: UserStatus[]) => void;
   onConnectionChange: (connected: boolean) => void;
   onError: (error: string) => void;
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  getPreferences?: () => UserPreferences;
   // Channel callbacks
   onChannelSync?: (channel: ChannelData) => void;
   onChannelUpdate?: (channelId: string, username: string, updates: Partial<UserStatus>) => void;
   onChannelMemberJoin?: (channelId: string, member: UserStatus) => void;
   onChannelMemberLeave?: (channelId: string, username: string) => void;
   onChannelCreated?: (channelId: string, name: string, inviteCode: string) => void;
-  onChannelJoined?: (channelId: string, name: string) => void;
-  onChannelMessage?: (channelId: string, sender: string, content: string, ts: number) => void;
+  onChannelJoined?: (channelId: string, name: string, remaining?: number) => void;
+  onChannelMessage?: (channelId: string, message: ChannelHistoryEntry) => void;
+  onChannelHistory?: (channelId: string, messages: ChannelHistoryEntry[], hasMore: boolean) => void;
+  onChannelMessageEdited?: (channelId: string, mid: string, content: string, editedAt: number) => void;
+  onChannelMessageDeleted?: (channelId: string, mid: string) => void;
+  onChannelReaction?: (channelId: string, mid: string, emoji: string, username: string, add: boolean) => void;
+  onChannelList?: (channelIds: string[]) => void;
+  onChannelRemoved?: (channelId: string, reason: 'kicked' | 'deleted') => void;
+  onChannelRoleChange?: (channelId: string, username: string, role: ChannelRole) => void;
+  onChannelRenamed?: (channelId: string, name: string) => void;
+  onInviteCreated?: (channelId: string, invite: ChannelInvite) => void;
+  onInviteList?: (channelId: string, invites: ChannelInvite[]) => void;
+  onInviteRevoked?: (channelId: string, code: string) => void;
+  // Close friends callbacks
+  onCloseFriendsUpdate?: (usernames: string[]) => void;
+  // Guest identity callbacks
+  onGuestToken?: (username: string, guestToken: string) => void;
+  onGuestNameReleased?: (username: string) => void;
 }
 
 export class WsClient {
   private ws: WebSocket | null = null;
   private users: Map<string, UserStatus> = new Map();
   private resumeToken: string | null = null;
+  private credentials: { username: string; token?: string; guestToken?: string } | null = null;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
+  private maxReconnectDelay = 30000;
+  private reconnectTimer: NodeJS.Timeout | null = null;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private isConnected = false;
+  private rateLimitedUntil = 0;
 
   constructor(private options: WsClientOptions) { }
 
   /**
-   * Connect to server with GitHub token
+   * Connect to server with a GitHub token, or as a guest with the
+   * credential issued when the guest name was claimed.
+   * Credentials are remembered so dropped connections are re-established.
    */
-  async connect(username: string, token?: string): Promise<void> {
+  async connect(username: string, token?: string, guestToken?: string): Promise<void> {
+    if (this.credentials?.username !== username) {
+      this.resumeToken = null;
+    }
+    this.credentials = { username, token, guestToken };
+    this.cancelReconnect();
+    return this.open();
+  }
+
+  /**
+   * Open a socket and log in with the remembered credentials
+   */
+  private open(): Promise<void> {
+    const credentials = this.credentials;
+    if (!credentials) {
+      return Promise.reject(new Error('No credentials'));
+    }
+
+    this.closeSocket();
+
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.options.serverUrl);
+        const ws = new WebSocket(this.options.serverUrl);
+        this.ws = ws;
 
-        this.ws.on('open', () => {
+        ws.on('open', () => {
           console.log('[WsClient] Connected to server');
-          this.isConnected = true;
-          this.reconnectAttempts = 0;
-          this.options.onConnectionChange(true);
 
-          // Send login
+          // Send login, resuming the previous session if we still have one
           const loginMsg: ClientMessage = {
             t: 'login',
-            username,
-            token,
+            username: credentials.username,
+            token: credentials.token,
             resumeToken: this.resumeToken ?? undefined,
+            guestToken: credentials.guestToken,
           };
           this.send(loginMsg);
         });
 
-        this.ws.on('message', (data: Buffer) => {
+        ws.on('message', (data: Buffer) => {
           this.handleMessage(data.toString());
         });
 
-        this.ws.on('close', () => {
-          this.handleDisconnect();
+        ws.on('close', () => {
+          if (this.ws === ws) {
+            this.handleDisconnect();
+          }
         });
 
-        this.ws.on('error', (error) => {
+        ws.on('error', (error) => {
           console.error('[WsClient] WebSocket error:', error);
-          this.options.onError(error.message);
+          // Failed reconnect attempts are reported through onReconnecting instead
+          if (this.reconnectAttempts === 0) {
+            this.options.onError(error.message);
+          }
           reject(error);
         });
 
         // Resolve after first successful message
-        const messageHandler = (data: Buffer) => {
+        const messageHandler = (data: Buffer): void => {
           const msg = JSON.parse(data.toString()) as ServerMessage;
           if (msg.t === 'loginSuccess') {
-            this.ws?.off('message', messageHandler);
+            ws.off('message', messageHandler);
             resolve();
           } else if (msg.t === 'loginError') {
-            this.ws?.off('message', messageHandler);
-            reject(new Error((msg as { error: string }).error));
+            ws.off('message', messageHandler);
+            reject(new Error(msg.error));
           }
         };
-        this.ws.on('message', messageHandler);
+        ws.on('message', messageHandler);
       } catch (error) {
         reject(error);
       }
@@ -113,18 +169,20 @@ export class WsClient {
    * Handle incoming server message
    */
   private handleMessage(data: string): void {
-    let message: ServerMessage;
-    try {
-      message = JSON.parse(data) as ServerMessage;
-    } catch {
-      console.error('[WsClient] Invalid JSON:', data);
+    const result = parseMessage(data, validateServerMessage);
+    if (!result.ok) {
+      console.error(`[WsClient] Dropping invalid message (${result.error.code}): ${result.error.error}`);
       return;
     }
+    const message: ServerMessage = result.value;
 
     switch (message.t) {
       case 'loginSuccess':
         this.handleLoginSuccess(message);
         break;
+      case 'loginError':
+        this.handleLoginError(message.error);
+        break;
       case 'sync':
         this.handleSync(message);
         break;
@@ -144,7 +202,7 @@ export class WsClient {
         this.resumeToken = message.token;
         break;
       case 'error':
-        this.options.onError(message.error);
+        this.handleError(message);
         break;
       // Channel messages
       case 'ccOk':
@@ -168,15 +226,98 @@ export class WsClient {
       case 'cm':
         this.handleChannelChat(message as ChannelChatMessage);
         break;
+      case 'chl':
+        this.options.onChannelList?.(message.channelIds);
+        break;
+      case 'chOk':
+        this.options.onChannelHistory?.(message.channelId, message.messages, message.hasMore);
+        break;
+      case 'ce':
+        this.options.onChannelMessageEdited?.(
+          message.channelId,
+          message.mid,
+          message.content,
+          message.editedAt ?? Date.now()
+        );
+        break;
+      case 'cx':
+        this.options.onChannelMessageDeleted?.(message.channelId, message.mid);
+        break;
+      case 'rx':
+        this.handleReaction(message);
+        break;
+      case 'ck':
+        this.handleMemberKicked(message);
+        break;
+      case 'cr':
+        this.options.onChannelRoleChange?.(message.channelId, message.id, message.role);
+        break;
+      case 'cn':
+        this.options.onChannelRenamed?.(message.channelId, message.name);
+        break;
+      case 'cd':
+        this.options.onChannelRemoved?.(message.channelId, 'deleted');
+        break;
+      case 'icOk':
+        this.options.onInviteCreated?.(message.channelId, message.invite);
+        break;
+      case 'ilOk':
+        this.options.onInviteList?.(message.channelId, message.invites);
+        break;
+      case 'irOk':
+        this.options.onInviteRevoked?.(message.channelId, message.code);
+        break;
+      // Close friends
+      case 'cfList':
+        this.handleCloseFriendsList(message);
+        break;
+      // Guest identity
+      case 'grOk':
+        if (this.credentials?.username === message.username) {
+          this.credentials.guestToken = undefined;
+        }
+        this.options.onGuestNameReleased?.(message.username);
+        break;
     }
   }
 
+  /**
+   * Handle server error
+   */
+  private handleError(message: ErrorMessage): void {
+    if (message.code !== 'rate_limited') {
+      this.options.onError(message.error);
+      return;
+    }
+
+    // Report once per limit window rather than once per rejected message
+    const retryAfter = message.retryAfter ?? 0;
+    if (Date.now() < this.rateLimitedUntil) return;
+    this.rateLimitedUntil = Date.now() + retryAfter;
+    this.options.onError(`${message.error} - retry in ${Math.ceil(retryAfter / 1000)}s`);
+  }
+
   /**
    * Handle login success
    */
   private handleLoginSuccess(message: LoginSuccessMessage): void {
     this.resumeToken = message.token;
+    if (message.guestToken && this.credentials) {
+      this.credentials.guestToken = message.guestToken;
+      this.options.onGuestToken?.(this.credentials.username, message.guestToken);
+    }
+    this.isConnected = true;
+    this.reconnectAttempts = 0;
     this.startHeartbeat();
+    this.options.onConnectionChange(true);
+
+    // Server enforces visibility, so it needs our current preferences
+    const prefs = this.options.getPreferences?.();
+    if (prefs) {
+      this.sendPreferences(prefs);
+    }
+
+    this.listCloseFriends();
   }
 
   /**
@@ -193,6 +334,7 @@ export class WsClient {
         project: user.p ?? '',
         language: user.l ?? '',
         lastSeen: user.ls,
+        customStatus: user.cs,
       });
     }
     this.options.onUserListUpdate(Array.from(this.users.values()));
@@ -227,6 +369,7 @@ export class WsClient {
       activity: message.act as ActivityType,
       project: message.p ?? '',
       language: message.l ?? '',
+      customStatus: message.cs,
     });
     this.options.onUserListUpdate(Array.from(this.users.values()));
   }
@@ -243,23 +386,84 @@ export class WsClient {
     }
   }
 
+  /**
+   * Handle rejected login - retrying with the same credentials cannot succeed
+   */
+  private handleLoginError(error: string): void {
+    const wasReconnecting = this.reconnectAttempts > 0;
+    this.credentials = null;
+    this.resumeToken = null;
+    this.cancelReconnect();
+    this.closeSocket();
+    this.isConnected = false;
+
+    if (wasReconnecting) {
+      this.options.onConnectionChange(false);
+      this.options.onError(`Reconnect failed - ${error}`);
+    }
+  }
+
   /**
    * Handle disconnect
    */
   private handleDisconnect(): void {
+    const wasConnected = this.isConnected;
     this.isConnected = false;
+    this.ws = null;
     this.stopHeartbeat();
-    this.options.onConnectionChange(false);
-
-    // Attempt reconnection
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
-      console.log(`[WsClient] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
-      setTimeout(() => {
-        // Will need username/token from storage
-        // This is handled by the extension
-      }, delay);
+    if (wasConnected) {
+      this.options.onConnectionChange(false);
+    }
+
+    // Keep the user list as-is: a resumed session continues where it left off
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Schedule a reconnect with jittered exponential backoff (no attempt cap)
+   */
+  private scheduleReconnect(): void {
+    if (!this.credentials || this.reconnectTimer) return;
+
+    this.reconnectAttempts++;
+    const ceiling = Math.min(
+      this.maxReconnectDelay,
+      this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1)
+    );
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+
+    console.log(`[WsClient] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.options.onReconnecting?.(this.reconnectAttempts, delay);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open().catch(() => {
+        // The socket's close event schedules the next attempt
+      });
+    }, delay);
+  }
+
+  /**
+   * Cancel a pending reconnect
+   */
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+  }
+
+  /**
+   * Close the current socket without triggering a reconnect
+   */
+  private closeSocket(): void {
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.removeAllListeners('close');
+      ws.on('error', () => { /* ignore errors from an abandoned socket */ });
+      ws.close();
     }
   }
 
@@ -276,6 +480,13 @@ export class WsClient {
     });
   }
 
+  /**
+   * Send privacy preferences
+   */
+  sendPreferences(prefs: Partial<UserPreferences>): void {
+    this.send({ t: 'prefsUpdate', prefs });
+  }
+
   /**
    * Send message to server
    */
@@ -306,12 +517,14 @@ export class WsClient {
   }
 
   /**
-   * Disconnect from server
+   * Disconnect from server and stop reconnecting
    */
   disconnect(): void {
+    this.credentials = null;
+    this.resumeToken = null;
+    this.cancelReconnect();
     this.stopHeartbeat();
-    this.ws?.close();
-    this.ws = null;
+    this.closeSocket();
     this.isConnected = false;
   }
 
@@ -329,6 +542,28 @@ export class WsClient {
     return this.isConnected;
   }
 
+  /**
+   * Username of the current (or reconnecting) session
+   */
+  get username(): string | undefined {
+    return this.credentials?.username;
+  }
+
+  /**
+   * Check if the session is a guest holding a claimed name
+   */
+  get isGuest(): boolean {
+    return !!this.credentials && !this.credentials.token && !!this.credentials.guestToken;
+  }
+
+  /**
+   * Give up the current guest username
+   */
+  releaseGuestName(): void {
+    if (!this.credentials?.guestToken) return;
+    this.send({ t: 'gr', guestToken: this.credentials.guestToken });
+  }
+
   // ==========================================================================
   // Channel Handlers (Phase 2)
   // ==========================================================================
@@ -338,7 +573,7 @@ export class WsClient {
   }
 
   private handleJoinSuccess(message: JoinSuccessMessage): void {
-    this.options.onChannelJoined?.(message.channelId, message.name);
+    this.options.onChannelJoined?.(message.channelId, message.name, message.remaining);
   }
 
   private handleChannelSync(message: ChannelSyncMessage): void {
@@ -349,21 +584,31 @@ export class WsClient {
       activity: (m.act as ActivityType) ?? 'Idle',
       project: m.p ?? '',
       language: m.l ?? '',
+      lastSeen: m.ls,
+      customStatus: m.cs,
     }));
     this.options.onChannelSync?.({
       id: message.channelId,
       name: message.name,
       members,
+      roles: message.roles ?? {},
+      self: this.credentials?.username,
+      capacity: message.capacity,
     });
+
+    // Backfill anything said while we were away
+    this.requestChannelHistory(message.channelId);
   }
 
   private handleChannelUpdate(message: ChannelUpdateMessage): void {
-    this.options.onChannelUpdate?.(message.channelId, message.id, {
-      status: message.s as StatusType,
-      activity: message.a as ActivityType,
-      project: message.p,
-      language: message.l,
-    });
+    // Deltas only carry changed fields - never overwrite the rest with undefined
+    const updates: Partial<UserStatus> = {};
+    if (message.s) updates.status = message.s as StatusType;
+    if (message.a) updates.activity = message.a as ActivityType;
+    if (message.p !== undefined) updates.project = message.p;
+    if (message.l !== undefined) updates.language = message.l;
+    if (message.cs !== undefined) updates.customStatus = message.cs ?? undefined;
+    this.options.onChannelUpdate?.(message.channelId, message.id, updates);
   }
 
   private handleChannelJoin(message: ChannelJoinMessage): void {
@@ -374,6 +619,7 @@ export class WsClient {
       activity: (message.member.act as ActivityType) ?? 'Idle',
       project: message.member.p ?? '',
       language: message.member.l ?? '',
+      customStatus: message.member.cs,
     };
     this.options.onChannelMemberJoin?.(message.channelId, member);
   }
@@ -382,9 +628,28 @@ export class WsClient {
     this.options.onChannelMemberLeave?.(message.channelId, message.id);
   }
 
+  private handleMemberKicked(message: KickMemberMessage): void {
+    if (message.id === this.credentials?.username) {
+      this.options.onChannelRemoved?.(message.channelId, 'kicked');
+    } else {
+      this.options.onChannelMemberLeave?.(message.channelId, message.id);
+    }
+  }
+
   private handleChannelChat(message: ChannelChatMessage): void {
-    if (message.id && message.ts) {
-      this.options.onChannelMessage?.(message.channelId, message.id, message.content, message.ts);
+    const { mid, id, ts } = message;
+    if (!mid || !id || !ts) return;
+
+    // Keep everything the server sent (attachments, mentions, ...) except the envelope
+    const entry: ChannelHistoryEntry & { t?: string; channelId?: string } = { ...message, mid, id, ts };
+    delete entry.t;
+    delete entry.channelId;
+    this.options.onChannelMessage?.(message.channelId, entry);
+  }
+
+  private handleReaction(message: ReactionMessage): void {
+    if (message.id) {
+      this.options.onChannelReaction?.(message.channelId, message.mid, message.emoji, message.id, message.add);
     }
   }
 
@@ -414,10 +679,100 @@ export class WsClient {
   }
 
   /**
-   * Send a message to a channel
+   * Send a message to a channel, optionally as a thread reply or with code attached
+   */
+  sendChannelMessage(
+    channelId: string,
+    content: string,
+    extras: { replyTo?: string; attachments?: ChatAttachment[] } = {}
+  ): void {
+    this.sendRaw({ t: 'cm', channelId, content, ...extras });
+  }
+
+  /**
+   * Edit one of our own chat messages
+   */
+  editChannelMessage(channelId: string, mid: string, content: string): void {
+    this.send({ t: 'ce', channelId, mid, content });
+  }
+
+  /**
+   * Delete a chat message (ours, or anyone's as a channel admin)
+   */
+  deleteChannelMessage(channelId: string, mid: string): void {
+    this.send({ t: 'cx', channelId, mid });
+  }
+
+  /**
+   * Add or remove an emoji reaction on a chat message
+   */
+  setReaction(channelId: string, mid: string, emoji: string, add: boolean): void {
+    this.send({ t: 'rx', channelId, mid, emoji, add });
+  }
+
+  /**
+   * Request chat history, newest first from a message id (latest if omitted)
+   */
+  requestChannelHistory(channelId: string, before?: string, limit = CHANNEL_HISTORY_PAGE_SIZE): void {
+    this.send({ t: 'ch', channelId, before, limit });
+  }
+
+  /**
+   * Remove a member from a channel (admins)
+   */
+  kickMember(channelId: string, username: string): void {
+    this.send({ t: 'ck', channelId, id: username });
+  }
+
+  /**
+   * Promote a member to admin, or demote an admin (owner)
+   */
+  setMemberRole(channelId: string, username: string, role: 'admin' | 'member'): void {
+    this.send({ t: 'cr', channelId, id: username, role });
+  }
+
+  /**
+   * Hand channel ownership to another member (owner)
+   */
+  transferOwnership(channelId: string, username: string): void {
+    this.send({ t: 'ct', channelId, id: username });
+  }
+
+  /**
+   * Rename a channel (admins)
+   */
+  renameChannel(channelId: string, name: string): void {
+    this.send({ t: 'cn', channelId, name });
+  }
+
+  /**
+   * Delete a channel (owner)
+   */
+  deleteChannel(channelId: string): void {
+    this.send({ t: 'cd', channelId });
+  }
+
+  /**
+   * Create an invite (admins)
+   * @param expiresIn Duration in ms (1h, 1d or 7d; server default 7d)
+   * @param maxUses Number of joins allowed, or undefined for unlimited
+   */
+  createInvite(channelId: string, expiresIn?: number, maxUses?: number): void {
+    this.send({ t: 'ic', channelId, expiresIn, maxUses });
+  }
+
+  /**
+   * Request a channel's usable invites (admins)
+   */
+  listInvites(channelId: string): void {
+    this.send({ t: 'il', channelId });
+  }
+
+  /**
+   * Revoke an invite (admins)
    */
-  sendChannelMessage(channelId: string, content: string): void {
-    this.sendRaw({ t: 'cm', channelId, content });
+  revokeInvite(channelId: string, code: string): void {
+    this.send({ t: 'ir', channelId, code });
   }
 
   /**
@@ -449,5 +804,40 @@ export class WsClient {
   clearCustomStatus(): void {
     this.sendRaw({ t: 'clr' });
   }
-}
 
+  // ==========================================================================
+  // Close Friends
+  // ==========================================================================
+
+  private handleCloseFriendsList(message: CloseFriendsListMessage): void {
+    this.options.onCloseFriendsUpdate?.(message.friends);
+  }
+
+  /**
+   * Add a user to close friends
+   */
+  addCloseFriend(username: string): void {
+    this.send({ t: 'cfa', username });
+  }
+
+  /**
+   * Remove a user from close friends
+   */
+  removeCloseFriend(username: string): void {
+    this.send({ t: 'cfr', username });
+  }
+
+  /**
+   * Request the close friends list
+   */
+  listCloseFriends(): void {
+    this.send({ t: 'cfl' });
+  }
+
+  /**
+   * Ask the server to re-read our followers/following from GitHub
+   */
+  refreshRelationships(): void {
+    this.send({ t: 'rf' });
+  }
+}
@@ -3,16 +3,49 @@
  * PostgreSQL connection pool and user operations
  */
 
+import crypto from 'crypto';
 import pg from 'pg';
-import type { DbUser, DbPreferences, DbChannel, DbChannelMember, VisibilityMode } from '../../shared/types';
-import { INVITE_CODE_LENGTH, MAX_CHANNEL_MEMBERS } from '../../shared/types';
+import type {
+  DbUser,
+  DbPreferences,
+  DbChannel,
+  DbChannelMember,
+  DbChannelInvite,
+  DbChannelMessage,
+  DbChannelReaction,
+  ChatAttachment,
+  VisibilityMode,
+} from '../../shared/types';
+import {
+  INVITE_CODE_LENGTH,
+  INVITE_CODE_EXPIRY_MS,
+  DEFAULT_CHANNEL_CAPACITY,
+  MAX_CHANNEL_CAPACITY,
+} from '../../shared/types';
 
 const { Pool } = pg;
 
+const INVITE_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Avoid confusing chars
+const INVITE_CODE_ATTEMPTS = 5;
+
+export interface DatabaseOptions {
+  /** Capacity of new channels; when set, existing smaller channels are raised to it on startup */
+  channelCapacity?: number;
+}
+
+/** Outcome of adding a channel member */
+export type AddMemberResult =
+  | { added: true; remaining: number }
+  | { added: false; reason: 'full' | 'already_member' | 'not_found' };
+
 export class DatabaseService {
   private pool: pg.Pool;
+  private channelCapacity: number;
+  private raiseExistingChannels: boolean;
 
-  constructor(connectionString: string) {
+  constructor(connectionString: string, options: DatabaseOptions = {}) {
+    this.channelCapacity = clampCapacity(options.channelCapacity ?? DEFAULT_CHANNEL_CAPACITY);
+    this.raiseExistingChannels = options.channelCapacity !== undefined;
     this.pool = new Pool({
       connectionString,
       max: 20,
@@ -50,18 +83,25 @@ export class DatabaseService {
         CREATE TABLE IF NOT EXISTS guest_users (
           id SERIAL PRIMARY KEY,
           username VARCHAR(255) UNIQUE NOT NULL,
+          token_id VARCHAR(64),
           created_at BIGINT DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000
         );
 
+        -- Guests registered before signed credentials existed are unclaimed
+        ALTER TABLE guest_users ADD COLUMN IF NOT EXISTS token_id VARCHAR(64);
+
         -- Channel tables (Phase 2)
         CREATE TABLE IF NOT EXISTS channels (
           id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
           name VARCHAR(100) NOT NULL,
           owner_id INTEGER REFERENCES users(github_id),
-          invite_code VARCHAR(10) UNIQUE NOT NULL,
+          capacity INTEGER NOT NULL DEFAULT ${DEFAULT_CHANNEL_CAPACITY},
           created_at BIGINT DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000
         );
 
+        -- Capacity used to be a fixed limit in code
+        ALTER TABLE channels ADD COLUMN IF NOT EXISTS capacity INTEGER NOT NULL DEFAULT ${DEFAULT_CHANNEL_CAPACITY};
+
         CREATE TABLE IF NOT EXISTS channel_members (
           channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
           user_id INTEGER REFERENCES users(github_id) ON DELETE CASCADE,
@@ -71,16 +111,82 @@ export class DatabaseService {
           PRIMARY KEY (channel_id, user_id)
         );
 
+        CREATE TABLE IF NOT EXISTS channel_messages (
+          id BIGSERIAL PRIMARY KEY,
+          channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
+          sender_id INTEGER REFERENCES users(github_id) ON DELETE SET NULL,
+          sender_username VARCHAR(255) NOT NULL,
+          content TEXT NOT NULL,
+          reply_to BIGINT REFERENCES channel_messages(id) ON DELETE SET NULL,
+          attachments JSONB,
+          mentions TEXT[],
+          edited_at BIGINT,
+          deleted BOOLEAN NOT NULL DEFAULT false,
+          created_at BIGINT NOT NULL
+        );
+
+        -- Threads, attachments, mentions, edits and deletion came after the first chat release
+        ALTER TABLE channel_messages
+          ADD COLUMN IF NOT EXISTS reply_to BIGINT REFERENCES channel_messages(id) ON DELETE SET NULL,
+          ADD COLUMN IF NOT EXISTS attachments JSONB,
+          ADD COLUMN IF NOT EXISTS mentions TEXT[],
+          ADD COLUMN IF NOT EXISTS edited_at BIGINT,
+          ADD COLUMN IF NOT EXISTS deleted BOOLEAN NOT NULL DEFAULT false;
+
+        CREATE TABLE IF NOT EXISTS channel_message_reactions (
+          message_id BIGINT REFERENCES channel_messages(id) ON DELETE CASCADE,
+          user_id INTEGER REFERENCES users(github_id) ON DELETE CASCADE,
+          username VARCHAR(255) NOT NULL,
+          emoji VARCHAR(32) NOT NULL,
+          created_at BIGINT DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000,
+          PRIMARY KEY (message_id, user_id, emoji)
+        );
+
+        CREATE TABLE IF NOT EXISTS channel_invites (
+          code VARCHAR(10) PRIMARY KEY,
+          channel_id UUID REFERENCES channels(id) ON DELETE CASCADE,
+          created_by INTEGER REFERENCES users(github_id) ON DELETE SET NULL,
+          expires_at BIGINT NOT NULL,
+          max_uses INTEGER,
+          uses INTEGER NOT NULL DEFAULT 0,
+          revoked BOOLEAN NOT NULL DEFAULT false,
+          created_at BIGINT DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000
+        );
+
+        -- Channels used to carry a single permanent code; move it into an invite
+        DO $$
+        BEGIN
+          IF EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'channels' AND column_name = 'invite_code'
+          ) THEN
+            INSERT INTO channel_invites (code, channel_id, created_by, expires_at)
+              SELECT invite_code, id, owner_id, EXTRACT(EPOCH FROM NOW()) * 1000 + ${INVITE_CODE_EXPIRY_MS}
+              FROM channels
+            ON CONFLICT (code) DO NOTHING;
+            ALTER TABLE channels DROP COLUMN invite_code;
+          END IF;
+        END $$;
+
         CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
         CREATE INDEX IF NOT EXISTS idx_users_followers ON users USING GIN(followers);
         CREATE INDEX IF NOT EXISTS idx_users_following ON users USING GIN(following);
-        CREATE INDEX IF NOT EXISTS idx_channels_invite ON channels(invite_code);
+        CREATE INDEX IF NOT EXISTS idx_channel_invites_channel ON channel_invites(channel_id);
+        CREATE INDEX IF NOT EXISTS idx_channel_messages_channel ON channel_messages(channel_id, id);
+        CREATE INDEX IF NOT EXISTS idx_channel_messages_created ON channel_messages(created_at);
         CREATE INDEX IF NOT EXISTS idx_channel_members_user ON channel_members(user_id);
       `);
       console.log('[DB] Schema initialized');
     } finally {
       client.release();
     }
+
+    if (this.raiseExistingChannels) {
+      const raised = await this.raiseChannelCapacity(this.channelCapacity);
+      if (raised > 0) {
+        console.log(`[DB] Raised ${raised} channels to capacity ${this.channelCapacity}`);
+      }
+    }
   }
 
   /**
@@ -130,6 +236,16 @@ export class DatabaseService {
     return result.rows[0] ?? null;
   }
 
+  /**
+   * Replace a user's follower/following snapshot
+   */
+  async updateRelationships(githubId: number, followers: number[], following: number[]): Promise<void> {
+    await this.pool.query(
+      'UPDATE users SET followers = $2, following = $3 WHERE github_id = $1',
+      [githubId, followers, following]
+    );
+  }
+
   /**
    * Update last seen timestamp
    */
@@ -160,7 +276,7 @@ export class DatabaseService {
   ): Promise<void> {
     await this.pool.query(
       `INSERT INTO preferences (user_id, visibility_mode, share_project, share_language, share_activity)
-       VALUES ($1, $2, $3, $4, $5)
+       VALUES ($1, COALESCE($2, 'everyone'), COALESCE($3, true), COALESCE($4, true), COALESCE($5, true))
        ON CONFLICT (user_id) DO UPDATE SET
          visibility_mode = COALESCE($2, preferences.visibility_mode),
          share_project = COALESCE($3, preferences.share_project),
@@ -168,10 +284,10 @@ export class DatabaseService {
          share_activity = COALESCE($5, preferences.share_activity)`,
       [
         userId,
-        prefs.visibility_mode ?? 'everyone',
-        prefs.share_project ?? true,
-        prefs.share_language ?? true,
-        prefs.share_activity ?? true,
+        prefs.visibility_mode ?? null,
+        prefs.share_project ?? null,
+        prefs.share_language ?? null,
+        prefs.share_activity ?? null,
       ]
     );
   }
@@ -198,6 +314,18 @@ export class DatabaseService {
     );
   }
 
+  /**
+   * Get users by usernames
+   */
+  async getUsersByUsernames(usernames: string[]): Promise<DbUser[]> {
+    if (usernames.length === 0) return [];
+    const result = await this.pool.query<DbUser>(
+      'SELECT * FROM users WHERE username = ANY($1)',
+      [usernames]
+    );
+    return result.rows;
+  }
+
   /**
    * Get users by IDs
    */
@@ -211,14 +339,27 @@ export class DatabaseService {
   }
 
   /**
-   * Check if user can see another user based on visibility settings
+   * Get preferences for multiple users
+   */
+  async getPreferencesByIds(userIds: number[]): Promise<DbPreferences[]> {
+    if (userIds.length === 0) return [];
+    const result = await this.pool.query<DbPreferences>(
+      'SELECT * FROM preferences WHERE user_id = ANY($1)',
+      [userIds]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Check if user can see another user based on visibility settings.
+   * Pure rule evaluation - callers supply cached user and preference rows.
    */
-  async canUserSee(
+  canUserSee(
     viewerId: number | null,
-    targetId: number,
+    _targetId: number,
     targetPrefs: DbPreferences | null,
     targetUser: DbUser
-  ): Promise<boolean> {
+  ): boolean {
     if (!viewerId) return false;
 
     const mode: VisibilityMode = targetPrefs?.visibility_mode ?? 'everyone';
@@ -240,18 +381,40 @@ export class DatabaseService {
   }
 
   /**
-   * Register guest user
+   * Claim a guest username for a credential.
+   * Succeeds for new names and for legacy names nobody has claimed yet.
    */
-  async registerGuest(username: string): Promise<boolean> {
-    try {
-      await this.pool.query(
-        'INSERT INTO guest_users (username) VALUES ($1)',
-        [username]
-      );
-      return true;
-    } catch {
-      return false; // Username taken
-    }
+  async claimGuest(username: string, tokenId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `INSERT INTO guest_users (username, token_id) VALUES ($1, $2)
+       ON CONFLICT (username) DO UPDATE SET token_id = EXCLUDED.token_id
+       WHERE guest_users.token_id IS NULL
+       RETURNING id`,
+      [username, tokenId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Check that a guest credential is still the one holding the name
+   */
+  async isGuestCredentialValid(username: string, tokenId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'SELECT 1 FROM guest_users WHERE username = $1 AND token_id = $2',
+      [username, tokenId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Release a guest username so anyone can claim it
+   */
+  async releaseGuest(username: string, tokenId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM guest_users WHERE username = $1 AND token_id = $2',
+      [username, tokenId]
+    );
+    return (result.rowCount ?? 0) > 0;
   }
 
   // ==========================================================================
@@ -262,10 +425,9 @@ export class DatabaseService {
    * Generate a random invite code
    */
   private generateInviteCode(): string {
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Avoid confusing chars
     let code = '';
     for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
+      code += INVITE_CODE_CHARS.charAt(crypto.randomInt(INVITE_CODE_CHARS.length));
     }
     return code;
   }
@@ -274,12 +436,11 @@ export class DatabaseService {
    * Create a new channel
    */
   async createChannel(name: string, ownerId: number, ownerUsername: string): Promise<DbChannel> {
-    const inviteCode = this.generateInviteCode();
     const result = await this.pool.query<DbChannel>(
-      `INSERT INTO channels (name, owner_id, invite_code)
+      `INSERT INTO channels (name, owner_id, capacity)
        VALUES ($1, $2, $3)
-       RETURNING id, name, owner_id, invite_code, created_at`,
-      [name, ownerId, inviteCode]
+       RETURNING id, name, owner_id, capacity, created_at`,
+      [name, ownerId, this.channelCapacity]
     );
     const channel = result.rows[0] as DbChannel;
 
@@ -290,16 +451,89 @@ export class DatabaseService {
   }
 
   /**
-   * Get channel by invite code
+   * Create an invite, retrying if the generated code is already taken
    */
-  async getChannelByInviteCode(inviteCode: string): Promise<DbChannel | null> {
-    const result = await this.pool.query<DbChannel>(
-      'SELECT * FROM channels WHERE invite_code = $1',
-      [inviteCode.toUpperCase()]
+  async createInvite(
+    channelId: string,
+    createdBy: number,
+    expiresAt: number,
+    maxUses: number | null = null
+  ): Promise<DbChannelInvite> {
+    for (let attempt = 0; attempt < INVITE_CODE_ATTEMPTS; attempt++) {
+      const result = await this.pool.query<DbChannelInvite>(
+        `INSERT INTO channel_invites (code, channel_id, created_by, expires_at, max_uses)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (code) DO NOTHING
+         RETURNING *`,
+        [this.generateInviteCode(), channelId, createdBy, expiresAt, maxUses]
+      );
+      if (result.rows[0]) return result.rows[0];
+    }
+    throw new Error('Could not generate a unique invite code');
+  }
+
+  /**
+   * Get invite by code, whatever its state
+   */
+  async getInvite(code: string): Promise<DbChannelInvite | null> {
+    const result = await this.pool.query<DbChannelInvite>(
+      `SELECT i.*, u.username AS created_by_username FROM channel_invites i
+       LEFT JOIN users u ON u.github_id = i.created_by
+       WHERE i.code = $1`,
+      [code.toUpperCase()]
     );
     return result.rows[0] ?? null;
   }
 
+  /**
+   * Get a channel's invites that can still be used
+   */
+  async getChannelInvites(channelId: string): Promise<DbChannelInvite[]> {
+    const result = await this.pool.query<DbChannelInvite>(
+      `SELECT i.*, u.username AS created_by_username FROM channel_invites i
+       LEFT JOIN users u ON u.github_id = i.created_by
+       WHERE i.channel_id = $1 AND NOT i.revoked AND i.expires_at > $2
+         AND (i.max_uses IS NULL OR i.uses < i.max_uses)
+       ORDER BY i.created_at DESC`,
+      [channelId, Date.now()]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Take one use of an invite. Fails if it is revoked, expired or used up.
+   */
+  async claimInviteUse(code: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE channel_invites SET uses = uses + 1
+       WHERE code = $1 AND NOT revoked AND expires_at > $2
+         AND (max_uses IS NULL OR uses < max_uses)`,
+      [code.toUpperCase(), Date.now()]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Give back a use taken by a join that did not go through
+   */
+  async releaseInviteUse(code: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE channel_invites SET uses = GREATEST(uses - 1, 0) WHERE code = $1',
+      [code.toUpperCase()]
+    );
+  }
+
+  /**
+   * Revoke an invite
+   */
+  async revokeInvite(channelId: string, code: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'UPDATE channel_invites SET revoked = true WHERE channel_id = $1 AND code = $2 AND NOT revoked',
+      [channelId, code.toUpperCase()]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
   /**
    * Get channel by ID
    */
@@ -312,46 +546,97 @@ export class DatabaseService {
   }
 
   /**
-   * Add member to channel
+   * Add member to channel. Reports the free slots left afterwards, or why the
+   * member was not added.
    */
   async addChannelMember(
     channelId: string,
     userId: number,
     username: string,
     role: 'admin' | 'member' = 'member'
-  ): Promise<boolean> {
-    // Check member count
-    const countResult = await this.pool.query<{ count: string }>(
-      'SELECT COUNT(*) as count FROM channel_members WHERE channel_id = $1',
-      [channelId]
-    );
-    const count = parseInt(countResult.rows[0]?.count ?? '0', 10);
+  ): Promise<AddMemberResult> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
 
-    if (count >= MAX_CHANNEL_MEMBERS) {
-      return false; // Channel full
-    }
+      // Locking the channel row serialises concurrent joins, so the checks below stay true
+      const channel = await client.query<{ capacity: number }>(
+        'SELECT capacity FROM channels WHERE id = $1 FOR UPDATE',
+        [channelId]
+      );
+      const capacity = channel.rows[0]?.capacity;
+      if (capacity === undefined) {
+        await client.query('ROLLBACK');
+        return { added: false, reason: 'not_found' };
+      }
+
+      const existing = await client.query(
+        'SELECT 1 FROM channel_members WHERE channel_id = $1 AND user_id = $2',
+        [channelId, userId]
+      );
+      if (existing.rowCount) {
+        await client.query('ROLLBACK');
+        return { added: false, reason: 'already_member' };
+      }
+
+      const count = await client.query<{ count: string }>(
+        'SELECT COUNT(*) AS count FROM channel_members WHERE channel_id = $1',
+        [channelId]
+      );
+      const members = parseInt(count.rows[0]?.count ?? '0', 10);
+      if (members >= capacity) {
+        await client.query('ROLLBACK');
+        return { added: false, reason: 'full' };
+      }
 
-    try {
-      await this.pool.query(
+      await client.query(
         `INSERT INTO channel_members (channel_id, user_id, username, role)
-         VALUES ($1, $2, $3, $4)
-         ON CONFLICT (channel_id, user_id) DO NOTHING`,
+         VALUES ($1, $2, $3, $4)`,
         [channelId, userId, username, role]
       );
-      return true;
-    } catch {
-      return false;
+      await client.query('COMMIT');
+      return { added: true, remaining: capacity - members - 1 };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
   }
 
+  /**
+   * Change how many members a channel may hold, e.g. to move it to a larger tier.
+   * Members above a lowered capacity stay; new joins wait until there is room.
+   */
+  async setChannelCapacity(channelId: string, capacity: number): Promise<boolean> {
+    const result = await this.pool.query(
+      'UPDATE channels SET capacity = $2 WHERE id = $1',
+      [channelId, clampCapacity(capacity)]
+    );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  /**
+   * Raise every channel below a capacity up to it, leaving larger channels alone.
+   * Returns the number of channels changed.
+   */
+  async raiseChannelCapacity(capacity: number): Promise<number> {
+    const result = await this.pool.query(
+      'UPDATE channels SET capacity = $1 WHERE capacity < $1',
+      [clampCapacity(capacity)]
+    );
+    return result.rowCount ?? 0;
+  }
+
   /**
    * Remove member from channel
    */
-  async removeChannelMember(channelId: string, userId: number): Promise<void> {
-    await this.pool.query(
+  async removeChannelMember(channelId: string, userId: number): Promise<boolean> {
+    const result = await this.pool.query(
       'DELETE FROM channel_members WHERE channel_id = $1 AND user_id = $2',
       [channelId, userId]
     );
+    return result.rowCount !== null && result.rowCount > 0;
   }
 
   /**
@@ -390,6 +675,69 @@ export class DatabaseService {
     return result.rowCount !== null && result.rowCount > 0;
   }
 
+  /**
+   * Get a channel member by username
+   */
+  async getChannelMember(channelId: string, username: string): Promise<DbChannelMember | null> {
+    const result = await this.pool.query<DbChannelMember>(
+      'SELECT * FROM channel_members WHERE channel_id = $1 AND username = $2',
+      [channelId, username]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Change a member's role
+   */
+  async setChannelMemberRole(channelId: string, userId: number, role: 'admin' | 'member'): Promise<boolean> {
+    const result = await this.pool.query(
+      'UPDATE channel_members SET role = $3 WHERE channel_id = $1 AND user_id = $2',
+      [channelId, userId, role]
+    );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  /**
+   * Hand ownership to another member, who becomes an admin.
+   * Fails if the current owner changed meanwhile.
+   */
+  async transferChannelOwnership(channelId: string, fromId: number, toId: number): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        'UPDATE channels SET owner_id = $3 WHERE id = $1 AND owner_id = $2',
+        [channelId, fromId, toId]
+      );
+      if (!result.rowCount) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+      await client.query(
+        `UPDATE channel_members SET role = 'admin' WHERE channel_id = $1 AND user_id = ANY($2)`,
+        [channelId, [fromId, toId]]
+      );
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Rename channel
+   */
+  async renameChannel(channelId: string, name: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'UPDATE channels SET name = $2 WHERE id = $1',
+      [channelId, name]
+    );
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
   /**
    * Delete channel (owner only)
    */
@@ -401,6 +749,157 @@ export class DatabaseService {
     return result.rowCount !== null && result.rowCount > 0;
   }
 
+  /**
+   * Store a chat message
+   */
+  async insertChannelMessage(
+    channelId: string,
+    senderId: number,
+    senderUsername: string,
+    content: string,
+    extras: { replyTo?: string | null; attachments?: ChatAttachment[]; mentions?: string[] } = {}
+  ): Promise<DbChannelMessage> {
+    const result = await this.pool.query<DbChannelMessage>(
+      `INSERT INTO channel_messages
+         (channel_id, sender_id, sender_username, content, reply_to, attachments, mentions, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        channelId,
+        senderId,
+        senderUsername,
+        content,
+        extras.replyTo ?? null,
+        extras.attachments?.length ? JSON.stringify(extras.attachments) : null,
+        extras.mentions?.length ? extras.mentions : null,
+        Date.now(),
+      ]
+    );
+    return result.rows[0] as DbChannelMessage;
+  }
+
+  /**
+   * Get a chat message by id within a channel
+   */
+  async getChannelMessage(channelId: string, messageId: string): Promise<DbChannelMessage | null> {
+    const result = await this.pool.query<DbChannelMessage>(
+      'SELECT * FROM channel_messages WHERE channel_id = $1 AND id = $2',
+      [channelId, messageId]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Get a page of chat history before a message id (latest page if null), oldest first,
+   * with the reactions on those messages
+   */
+  async getChannelMessages(
+    channelId: string,
+    before: string | null,
+    limit: number
+  ): Promise<{ messages: DbChannelMessage[]; reactions: DbChannelReaction[]; hasMore: boolean }> {
+    // Fetch one extra row to learn whether an older page exists
+    const result = await this.pool.query<DbChannelMessage>(
+      `SELECT * FROM channel_messages
+       WHERE channel_id = $1 AND ($2::BIGINT IS NULL OR id < $2::BIGINT)
+       ORDER BY id DESC
+       LIMIT $3`,
+      [channelId, before, limit + 1]
+    );
+    const hasMore = result.rows.length > limit;
+    const messages = result.rows.slice(0, limit).reverse();
+
+    const reactions = messages.length === 0 ? [] : (await this.pool.query<DbChannelReaction>(
+      `SELECT message_id, username, emoji FROM channel_message_reactions
+       WHERE message_id = ANY($1::BIGINT[])
+       ORDER BY created_at`,
+      [messages.map(m => m.id)]
+    )).rows;
+
+    return { messages, reactions, hasMore };
+  }
+
+  /**
+   * Replace a message's content. Returns the edit time, or null if the
+   * message is gone or was not written by the editor.
+   */
+  async editChannelMessage(
+    channelId: string,
+    messageId: string,
+    senderId: number,
+    content: string
+  ): Promise<number | null> {
+    const editedAt = Date.now();
+    const result = await this.pool.query(
+      `UPDATE channel_messages SET content = $4, edited_at = $5
+       WHERE channel_id = $1 AND id = $2 AND sender_id = $3 AND NOT deleted`,
+      [channelId, messageId, senderId, content, editedAt]
+    );
+    return result.rowCount ? editedAt : null;
+  }
+
+  /**
+   * Delete a message, leaving a tombstone so its thread still hangs together
+   */
+  async deleteChannelMessage(channelId: string, messageId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE channel_messages SET content = '', attachments = NULL, mentions = NULL, deleted = true
+       WHERE channel_id = $1 AND id = $2 AND NOT deleted`,
+      [channelId, messageId]
+    );
+    if (!result.rowCount) return false;
+
+    await this.pool.query('DELETE FROM channel_message_reactions WHERE message_id = $1', [messageId]);
+    return true;
+  }
+
+  /**
+   * Add a reaction. Returns false if it was already there or the message
+   * already carries the maximum number of distinct emoji.
+   */
+  async addReaction(
+    messageId: string,
+    userId: number,
+    username: string,
+    emoji: string,
+    maxDistinct: number
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `INSERT INTO channel_message_reactions (message_id, user_id, username, emoji)
+       SELECT $1, $2, $3, $4
+       WHERE EXISTS (
+         SELECT 1 FROM channel_message_reactions WHERE message_id = $1 AND emoji = $4
+       ) OR (
+         SELECT COUNT(DISTINCT emoji) FROM channel_message_reactions WHERE message_id = $1
+       ) < $5
+       ON CONFLICT DO NOTHING`,
+      [messageId, userId, username, emoji, maxDistinct]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Remove a reaction. Returns false if it was not there.
+   */
+  async removeReaction(messageId: string, userId: number, emoji: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM channel_message_reactions WHERE message_id = $1 AND user_id = $2 AND emoji = $3',
+      [messageId, userId, emoji]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Delete chat messages older than a timestamp. Returns how many were removed.
+   */
+  async pruneChannelMessages(olderThan: number): Promise<number> {
+    const result = await this.pool.query(
+      'DELETE FROM channel_messages WHERE created_at < $1',
+      [olderThan]
+    );
+    return result.rowCount ?? 0;
+  }
+
   /**
    * Close database connection
    */
@@ -408,3 +907,8 @@ export class DatabaseService {
     await this.pool.end();
   }
 }
+
+function clampCapacity(capacity: number): number {
+  if (!Number.isFinite(capacity)) return DEFAULT_CHANNEL_CAPACITY;
+  return Math.min(Math.max(Math.floor(capacity), 1), MAX_CHANNEL_CAPACITY);
+}
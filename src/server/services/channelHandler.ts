@@ -6,24 +6,46 @@
 import type { WebSocket } from 'ws';
 import type { DatabaseService } from '../database';
 import type { PubSubService } from './pubsub';
+import type { ClientData } from './messageHandler';
 import type {
   CreateChannelMessage,
   JoinChannelMessage,
   LeaveChannelMessage,
   ChannelChatMessage,
+  ChannelHistoryRequestMessage,
+  ChannelHistoryEntry,
+  EditChatMessage,
+  DeleteChatMessage,
+  ReactionMessage,
+  ChannelUpdateMessage,
+  KickMemberMessage,
+  ChannelRoleMessage,
+  TransferOwnershipMessage,
+  RenameChannelMessage,
+  DeleteChannelMessage,
+  CreateInviteMessage,
+  ListInvitesMessage,
+  RevokeInviteMessage,
+  ChannelInvite,
+  ChannelRole,
   CompactUser,
+  DbChannel,
+  DbChannelMember,
+  DbChannelInvite,
+  DbChannelMessage,
+  DbChannelReaction,
+} from '../../shared/types';
+import {
+  CHANNEL_NAME_MIN_LENGTH,
+  CHANNEL_NAME_MAX_LENGTH,
+  INVITE_CODE_EXPIRY_MS,
+  CHANNEL_HISTORY_PAGE_SIZE,
+  MAX_REACTIONS_PER_MESSAGE,
+  MAX_ATTACHMENT_BYTES,
 } from '../../shared/types';
 
-export interface ClientData {
-  ws: WebSocket;
-  username: string;
-  githubId?: number;
-  avatar?: string;
-  status: string;
-  activity: string;
-  project: string;
-  language: string;
-}
+// GitHub usernames and guest names are word characters and hyphens
+const MENTION_PATTERN = /(?<![\w@])@([\w-]+)/g;
 
 export class ChannelHandler {
   // Track which channels each client is subscribed to
@@ -33,7 +55,8 @@ export class ChannelHandler {
     private db: DatabaseService,
     private pubsub: PubSubService,
     private getClient: (ws: WebSocket) => ClientData | undefined,
-    private getClientByUsername: (username: string) => ClientData | undefined
+    private toMember: (client: ClientData) => CompactUser,
+    private buildMemberList: (viewer: ClientData, members: DbChannelMember[]) => Promise<CompactUser[]>
   ) { }
 
   /**
@@ -42,35 +65,48 @@ export class ChannelHandler {
   async handleCreateChannel(ws: WebSocket, message: CreateChannelMessage): Promise<void> {
     const client = this.getClient(ws);
     if (!client?.githubId) {
-      ws.send(JSON.stringify({ t: 'error', error: 'Must be authenticated to create channels' }));
+      this.sendError(ws, 'Must be logged in with GitHub to create channels');
       return;
     }
 
     // Validate name
     const name = message.name.trim();
-    if (name.length < 3 || name.length > 30) {
-      ws.send(JSON.stringify({ t: 'error', error: 'Channel name must be 3-30 characters' }));
+    if (name.length < CHANNEL_NAME_MIN_LENGTH || name.length > CHANNEL_NAME_MAX_LENGTH) {
+      this.sendError(ws, `Channel name must be ${CHANNEL_NAME_MIN_LENGTH}-${CHANNEL_NAME_MAX_LENGTH} characters`);
       return;
     }
 
     try {
       const channel = await this.db.createChannel(name, client.githubId, client.username);
+      const invite = await this.db.createInvite(channel.id, client.githubId, Date.now() + INVITE_CODE_EXPIRY_MS);
 
       // Subscribe creator to channel
-      await this.subscribeToChannel(ws, channel.id);
+      await this.pubsub.addMembership(client.username, channel.id);
+      await this.subscribeToChannel(ws, channel.id, client.username);
 
       // Send success response
       ws.send(JSON.stringify({
         t: 'ccOk',
         channelId: channel.id,
         name: channel.name,
-        inviteCode: channel.invite_code,
+        inviteCode: invite.code,
+      }));
+
+      // Send channel sync with initial member (self)
+      ws.send(JSON.stringify({
+        t: 'cs',
+        channelId: channel.id,
+        name: channel.name,
+        members: [this.toMember(client)],
+        roles: { [client.username]: 'owner' },
+        capacity: channel.capacity,
+        remaining: channel.capacity - 1,
       }));
 
       console.log(`[Channels] Created channel "${name}" by ${client.username}`);
     } catch (error) {
       console.error('[Channels] Create channel error:', error);
-      ws.send(JSON.stringify({ t: 'error', error: 'Failed to create channel' }));
+      this.sendError(ws, 'Failed to create channel');
     }
   }
 
@@ -80,57 +116,69 @@ export class ChannelHandler {
   async handleJoinChannel(ws: WebSocket, message: JoinChannelMessage): Promise<void> {
     const client = this.getClient(ws);
     if (!client?.githubId) {
-      ws.send(JSON.stringify({ t: 'error', error: 'Must be authenticated to join channels' }));
+      this.sendError(ws, 'Must be logged in with GitHub to join channels');
       return;
     }
 
-    const channel = await this.db.getChannelByInviteCode(message.inviteCode);
-    if (!channel) {
-      ws.send(JSON.stringify({ t: 'error', error: 'Invalid invite code' }));
+    const invite = await this.db.getInvite(message.inviteCode);
+    const channel = invite ? await this.db.getChannelById(invite.channel_id) : null;
+    if (!invite || !channel) {
+      this.sendError(ws, 'Invalid invite code', 'invite_invalid');
       return;
     }
+    if (this.rejectUnusableInvite(ws, invite)) return;
 
     // Check if already a member
     const isMember = await this.db.isChannelMember(channel.id, client.githubId);
     if (isMember) {
-      ws.send(JSON.stringify({ t: 'error', error: 'Already a member of this channel' }));
+      this.sendError(ws, 'Already a member of this channel');
+      return;
+    }
+
+    // Take a use first so concurrent joins cannot overrun max uses
+    if (!await this.db.claimInviteUse(invite.code)) {
+      const current = await this.db.getInvite(invite.code);
+      if (!current || !this.rejectUnusableInvite(ws, current)) {
+        this.sendError(ws, 'Invalid invite code', 'invite_invalid');
+      }
       return;
     }
 
     // Add to channel
-    const added = await this.db.addChannelMember(channel.id, client.githubId, client.username);
-    if (!added) {
-      ws.send(JSON.stringify({ t: 'error', error: 'Channel is full (max 50 members)' }));
+    const result = await this.db.addChannelMember(channel.id, client.githubId, client.username);
+    if (!result.added) {
+      await this.db.releaseInviteUse(invite.code);
+      if (result.reason === 'full') {
+        this.sendError(ws, `Channel is full (max ${channel.capacity} members)`, 'channel_full');
+      } else if (result.reason === 'already_member') {
+        this.sendError(ws, 'Already a member of this channel');
+      } else {
+        this.sendError(ws, 'Invalid invite code', 'invite_invalid');
+      }
       return;
     }
 
     // Subscribe to channel
-    await this.subscribeToChannel(ws, channel.id);
+    await this.pubsub.addMembership(client.username, channel.id);
+    await this.subscribeToChannel(ws, channel.id, client.username);
 
     // Send join success
     ws.send(JSON.stringify({
       t: 'jcOk',
       channelId: channel.id,
       name: channel.name,
+      remaining: result.remaining,
     }));
 
     // Send channel sync (member list)
-    await this.sendChannelSync(ws, channel.id, channel.name);
+    await this.sendChannelSync(ws, client, channel);
 
     // Notify other members
-    const newMember: CompactUser = {
-      id: client.username,
-      a: client.avatar,
-      s: client.status,
-      act: client.activity,
-      p: client.project,
-      l: client.language,
-    };
-    await this.pubsub.publisher.publish(`channel:${channel.id}`, JSON.stringify({
+    await this.pubsub.publishToChannel(channel.id, {
       t: 'cj',
       channelId: channel.id,
-      member: newMember,
-    }));
+      member: this.toMember(client),
+    });
 
     console.log(`[Channels] ${client.username} joined channel "${channel.name}"`);
   }
@@ -142,17 +190,28 @@ export class ChannelHandler {
     const client = this.getClient(ws);
     if (!client?.githubId) return;
 
-    await this.db.removeChannelMember(message.channelId, client.githubId);
+    // A channel always keeps its owner
+    const channel = await this.db.getChannelById(message.channelId);
+    if (channel?.owner_id === client.githubId) {
+      this.sendError(ws, 'Transfer ownership before leaving this channel');
+      return;
+    }
+
+    if (!await this.db.removeChannelMember(message.channelId, client.githubId)) {
+      this.sendError(ws, 'Not a member of this channel');
+      return;
+    }
 
     // Unsubscribe from channel
     await this.unsubscribeFromChannel(ws, message.channelId);
+    await this.pubsub.removeMembership([client.username], message.channelId);
 
     // Notify other members
-    await this.pubsub.publisher.publish(`channel:${message.channelId}`, JSON.stringify({
+    await this.pubsub.publishToChannel(message.channelId, {
       t: 'cl',
       channelId: message.channelId,
       id: client.username,
-    }));
+    });
 
     console.log(`[Channels] ${client.username} left channel ${message.channelId}`);
   }
@@ -167,33 +226,226 @@ export class ChannelHandler {
     // Verify membership
     const isMember = await this.db.isChannelMember(message.channelId, client.githubId);
     if (!isMember) {
-      ws.send(JSON.stringify({ t: 'error', error: 'Not a member of this channel' }));
+      this.sendError(ws, 'Not a member of this channel');
+      return;
+    }
+
+    const attachments = message.attachments ?? [];
+    if (!message.content.trim() && attachments.length === 0) {
+      this.sendError(ws, 'Message is empty');
+      return;
+    }
+
+    const attachmentBytes = attachments.reduce((sum, a) => sum + Buffer.byteLength(a.code), 0);
+    if (attachmentBytes > MAX_ATTACHMENT_BYTES) {
+      this.sendError(ws, `Attachments exceed ${MAX_ATTACHMENT_BYTES / 1024} KB`, 'attachment_too_large');
+      return;
+    }
+    if (attachments.some(a => a.endLine < a.startLine)) {
+      this.sendError(ws, 'Invalid line range');
       return;
     }
 
-    // Broadcast message to channel
+    // Replies hang off the thread root, so threads stay one level deep
+    let replyTo: string | null = null;
+    if (message.replyTo) {
+      const parent = await this.db.getChannelMessage(message.channelId, message.replyTo);
+      if (!parent || parent.deleted) {
+        this.sendError(ws, 'Message not found');
+        return;
+      }
+      replyTo = parent.reply_to ?? parent.id;
+    }
+
+    // Store, then broadcast message to channel
+    const stored = await this.db.insertChannelMessage(
+      message.channelId,
+      client.githubId,
+      client.username,
+      message.content,
+      {
+        replyTo,
+        attachments: attachments.map(a => ({
+          kind: a.kind,
+          code: a.code,
+          languageId: a.languageId,
+          path: a.path,
+          startLine: a.startLine,
+          endLine: a.endLine,
+        })),
+        mentions: await this.resolveMentions(message.channelId, message.content, client.username),
+      }
+    );
     const chatMsg: ChannelChatMessage = {
       t: 'cm',
       channelId: message.channelId,
-      id: client.username,
-      content: message.content,
-      ts: Date.now(),
+      ...this.toHistoryEntry(stored),
     };
 
-    await this.pubsub.publisher.publish(`channel:${message.channelId}`, JSON.stringify(chatMsg));
+    await this.pubsub.publishToChannel(message.channelId, chatMsg);
+  }
+
+  /**
+   * Handle chat history request
+   */
+  async handleChannelHistory(ws: WebSocket, message: ChannelHistoryRequestMessage): Promise<void> {
+    const client = this.getClient(ws);
+    if (!client?.githubId) return;
+
+    const isMember = await this.db.isChannelMember(message.channelId, client.githubId);
+    if (!isMember) {
+      this.sendError(ws, 'Not a member of this channel');
+      return;
+    }
+
+    const page = await this.db.getChannelMessages(
+      message.channelId,
+      message.before ?? null,
+      message.limit ?? CHANNEL_HISTORY_PAGE_SIZE
+    );
+
+    ws.send(JSON.stringify({
+      t: 'chOk',
+      channelId: message.channelId,
+      messages: page.messages.map(m => this.toHistoryEntry(m, page.reactions)),
+      hasMore: page.hasMore,
+    }));
+  }
+
+  /**
+   * Handle editing a chat message (author only)
+   */
+  async handleEditMessage(ws: WebSocket, message: EditChatMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'member');
+    if (!access?.client.githubId) return;
+
+    const editedAt = await this.db.editChannelMessage(
+      message.channelId,
+      message.mid,
+      access.client.githubId,
+      message.content
+    );
+    if (editedAt === null) {
+      this.sendError(ws, 'You can only edit your own messages');
+      return;
+    }
+
+    await this.pubsub.publishToChannel(message.channelId, {
+      t: 'ce',
+      channelId: message.channelId,
+      mid: message.mid,
+      content: message.content,
+      editedAt,
+    });
+  }
+
+  /**
+   * Handle deleting a chat message (author or channel admin)
+   */
+  async handleDeleteMessage(ws: WebSocket, message: DeleteChatMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'member');
+    if (!access) return;
+
+    const target = await this.db.getChannelMessage(message.channelId, message.mid);
+    if (!target || target.deleted) {
+      this.sendError(ws, 'Message not found');
+      return;
+    }
+    if (target.sender_id !== access.client.githubId && access.role === 'member') {
+      this.sendError(ws, 'Only the author or a channel admin can delete this message');
+      return;
+    }
+
+    if (await this.db.deleteChannelMessage(message.channelId, message.mid)) {
+      await this.pubsub.publishToChannel(message.channelId, {
+        t: 'cx',
+        channelId: message.channelId,
+        mid: message.mid,
+      });
+    }
+  }
+
+  /**
+   * Handle adding or removing an emoji reaction
+   */
+  async handleReaction(ws: WebSocket, message: ReactionMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'member');
+    if (!access?.client.githubId) return;
+
+    const target = await this.db.getChannelMessage(message.channelId, message.mid);
+    if (!target || target.deleted) {
+      this.sendError(ws, 'Message not found');
+      return;
+    }
+
+    const changed = message.add
+      ? await this.db.addReaction(
+        message.mid,
+        access.client.githubId,
+        access.client.username,
+        message.emoji,
+        MAX_REACTIONS_PER_MESSAGE
+      )
+      : await this.db.removeReaction(message.mid, access.client.githubId, message.emoji);
+    if (!changed) return;  // Duplicate, absent, or over the emoji limit
+
+    await this.pubsub.publishToChannel(message.channelId, {
+      t: 'rx',
+      channelId: message.channelId,
+      mid: message.mid,
+      emoji: message.emoji,
+      add: message.add,
+      id: access.client.username,
+    });
+  }
+
+  /**
+   * Members named with @username in a message, excluding the sender
+   */
+  private async resolveMentions(channelId: string, content: string, sender: string): Promise<string[]> {
+    const named = new Set<string>();
+    for (const [, name] of content.matchAll(MENTION_PATTERN)) {
+      if (name) named.add(name.toLowerCase());
+    }
+    if (named.size === 0) return [];
+
+    const members = await this.db.getChannelMembers(channelId);
+    return members
+      .map(m => m.username)
+      .filter(username => username !== sender && named.has(username.toLowerCase()));
+  }
+
+  private toHistoryEntry(message: DbChannelMessage, reactions: DbChannelReaction[] = []): ChannelHistoryEntry {
+    const entry: ChannelHistoryEntry = {
+      mid: message.id,
+      id: message.sender_username,
+      content: message.content,
+      ts: Number(message.created_at),
+    };
+    if (message.reply_to) entry.replyTo = message.reply_to;
+    if (message.attachments?.length) entry.attachments = message.attachments;
+    if (message.mentions?.length) entry.mentions = message.mentions;
+    if (message.edited_at) entry.editedAt = Number(message.edited_at);
+    if (message.deleted) entry.deleted = true;
+
+    for (const reaction of reactions) {
+      if (reaction.message_id !== message.id) continue;
+      entry.reactions ??= {};
+      (entry.reactions[reaction.emoji] ??= []).push(reaction.username);
+    }
+    return entry;
   }
 
   /**
    * Subscribe WebSocket to a channel's Redis pub/sub
    */
-  private async subscribeToChannel(ws: WebSocket, channelId: string): Promise<void> {
+  private async subscribeToChannel(ws: WebSocket, channelId: string, username: string): Promise<void> {
     if (!this.clientChannels.has(ws)) {
       this.clientChannels.set(ws, new Set());
     }
     this.clientChannels.get(ws)?.add(channelId);
 
-    // PubSub subscription is handled by the main subscriber
-    // Here we just track it locally
+    await this.pubsub.subscribeToChannel(ws, channelId, username);
   }
 
   /**
@@ -201,94 +453,358 @@ export class ChannelHandler {
    */
   private async unsubscribeFromChannel(ws: WebSocket, channelId: string): Promise<void> {
     this.clientChannels.get(ws)?.delete(channelId);
+    await this.pubsub.unsubscribeFromChannel(ws, channelId);
   }
 
   /**
    * Send channel sync (member list) to a client
    */
-  async sendChannelSync(ws: WebSocket, channelId: string, channelName: string): Promise<void> {
-    const members = await this.db.getChannelMembers(channelId);
-    const memberStatuses: CompactUser[] = [];
-
-    for (const member of members) {
-      const onlineClient = this.getClientByUsername(member.username);
-      if (onlineClient) {
-        memberStatuses.push({
-          id: member.username,
-          a: onlineClient.avatar,
-          s: onlineClient.status,
-          act: onlineClient.activity,
-          p: onlineClient.project,
-          l: onlineClient.language,
-        });
-      } else {
-        // Offline member
-        memberStatuses.push({
-          id: member.username,
-          s: 'Offline',
-          act: 'Idle',
-        });
-      }
-    }
+  async sendChannelSync(ws: WebSocket, viewer: ClientData, channel: DbChannel): Promise<void> {
+    const members = await this.db.getChannelMembers(channel.id);
 
     ws.send(JSON.stringify({
       t: 'cs',
-      channelId,
-      name: channelName,
-      members: memberStatuses,
+      channelId: channel.id,
+      name: channel.name,
+      members: await this.buildMemberList(viewer, members),
+      roles: Object.fromEntries(members.map(m => [m.username, this.roleOf(channel, m)])),
+      capacity: channel.capacity,
+      remaining: Math.max(0, channel.capacity - members.length),
     }));
   }
 
   /**
-   * Broadcast status update to all channels a user is in
+   * Broadcast a presence delta to all channels a user is in.
+   * Memberships are read from Redis, so status updates never hit the database
+   * and every node sees joins and removals handled elsewhere.
    */
-  async broadcastStatusToChannels(client: ClientData): Promise<void> {
-    if (!client.githubId) return;
+  async broadcastStatusToChannels(delta: Omit<ChannelUpdateMessage, 't' | 'channelId'>): Promise<void> {
+    for (const channelId of await this.pubsub.getMemberships(delta.id)) {
+      await this.pubsub.publishToChannel(channelId, {
+        t: 'cu',
+        channelId,
+        ...delta,
+      });
+    }
+  }
 
-    const channels = await this.db.getUserChannels(client.githubId);
+  /**
+   * Load user's channels on connect (login or resume).
+   * The full list goes first so the client can drop channels it was removed from.
+   */
+  async loadUserChannels(ws: WebSocket, client: ClientData): Promise<void> {
+    const channels = client.githubId ? await this.db.getUserChannels(client.githubId) : [];
+    await this.pubsub.setMemberships(client.username, channels.map(c => c.id));
+
+    ws.send(JSON.stringify({
+      t: 'chl',
+      channelIds: channels.map(c => c.id),
+    }));
 
     for (const channel of channels) {
-      await this.pubsub.publisher.publish(`channel:${channel.id}`, JSON.stringify({
-        t: 'cu',
-        channelId: channel.id,
-        id: client.username,
-        s: client.status,
-        a: client.activity,
-        p: client.project,
-        l: client.language,
+      await this.subscribeToChannel(ws, channel.id, client.username);
+      await this.sendChannelSync(ws, client, channel);
+    }
+  }
+
+  // ==========================================================================
+  // Administration
+  // ==========================================================================
+
+  /**
+   * Handle removing a member. Admins may kick members; only the owner may kick admins.
+   */
+  async handleKickMember(ws: WebSocket, message: KickMemberMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'admin');
+    if (!access) return;
+
+    const target = await this.db.getChannelMember(message.channelId, message.id);
+    if (!target) {
+      this.sendError(ws, 'User is not a member of this channel');
+      return;
+    }
+    const targetRole = this.roleOf(access.channel, target);
+    if (target.user_id === access.client.githubId) {
+      this.sendError(ws, 'Use leave to remove yourself');
+      return;
+    }
+    if (targetRole === 'owner' || (targetRole === 'admin' && access.role !== 'owner')) {
+      this.sendError(ws, 'Only the owner can remove admins');
+      return;
+    }
+
+    await this.db.removeChannelMember(message.channelId, target.user_id);
+    await this.pubsub.removeMembership([target.username], message.channelId);
+    await this.pubsub.publishToChannel(message.channelId, {
+      t: 'ck',
+      channelId: message.channelId,
+      id: target.username,
+    });
+
+    console.log(`[Channels] ${access.client.username} removed ${target.username} from ${message.channelId}`);
+  }
+
+  /**
+   * Handle promoting or demoting a member (owner only)
+   */
+  async handleSetMemberRole(ws: WebSocket, message: ChannelRoleMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'owner');
+    if (!access) return;
+
+    const target = await this.db.getChannelMember(message.channelId, message.id);
+    if (!target) {
+      this.sendError(ws, 'User is not a member of this channel');
+      return;
+    }
+    if (this.roleOf(access.channel, target) === 'owner' || message.role === 'owner') {
+      this.sendError(ws, 'Use transfer to change the owner');
+      return;
+    }
+
+    await this.db.setChannelMemberRole(message.channelId, target.user_id, message.role);
+    await this.publishRole(message.channelId, target.username, message.role);
+  }
+
+  /**
+   * Handle handing ownership to another member (owner only)
+   */
+  async handleTransferOwnership(ws: WebSocket, message: TransferOwnershipMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'owner');
+    if (!access?.client.githubId) return;
+
+    const target = await this.db.getChannelMember(message.channelId, message.id);
+    if (!target || target.user_id === access.client.githubId) {
+      this.sendError(ws, 'New owner must be another member of this channel');
+      return;
+    }
+
+    const transferred = await this.db.transferChannelOwnership(
+      message.channelId,
+      access.client.githubId,
+      target.user_id
+    );
+    if (!transferred) {
+      this.sendError(ws, 'Failed to transfer ownership');
+      return;
+    }
+
+    await this.publishRole(message.channelId, target.username, 'owner');
+    await this.publishRole(message.channelId, access.client.username, 'admin');
+
+    console.log(`[Channels] ${access.client.username} transferred ${message.channelId} to ${target.username}`);
+  }
+
+  /**
+   * Handle renaming a channel (admins)
+   */
+  async handleRenameChannel(ws: WebSocket, message: RenameChannelMessage): Promise<void> {
+    const name = message.name.trim();
+    if (name.length < CHANNEL_NAME_MIN_LENGTH || name.length > CHANNEL_NAME_MAX_LENGTH) {
+      this.sendError(ws, `Channel name must be ${CHANNEL_NAME_MIN_LENGTH}-${CHANNEL_NAME_MAX_LENGTH} characters`);
+      return;
+    }
+
+    const access = await this.authorize(ws, message.channelId, 'admin');
+    if (!access) return;
+
+    await this.db.renameChannel(message.channelId, name);
+    await this.pubsub.publishToChannel(message.channelId, {
+      t: 'cn',
+      channelId: message.channelId,
+      name,
+    });
+  }
+
+  /**
+   * Handle deleting a channel (owner only)
+   */
+  async handleDeleteChannel(ws: WebSocket, message: DeleteChannelMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'owner');
+    if (!access?.client.githubId) return;
+
+    const members = await this.db.getChannelMembers(message.channelId);
+    const deleted = await this.db.deleteChannel(message.channelId, access.client.githubId);
+    if (!deleted) {
+      this.sendError(ws, 'Failed to delete channel');
+      return;
+    }
+    await this.pubsub.removeMembership(members.map(m => m.username), message.channelId);
+
+    await this.pubsub.publishToChannel(message.channelId, {
+      t: 'cd',
+      channelId: message.channelId,
+    });
+
+    console.log(`[Channels] ${access.client.username} deleted channel "${access.channel.name}"`);
+  }
+
+  // ==========================================================================
+  // Invites
+  // ==========================================================================
+
+  /**
+   * Handle creating an invite (admins)
+   */
+  async handleCreateInvite(ws: WebSocket, message: CreateInviteMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'admin');
+    if (!access?.client.githubId) return;
+
+    try {
+      const invite = await this.db.createInvite(
+        message.channelId,
+        access.client.githubId,
+        Date.now() + (message.expiresIn ?? INVITE_CODE_EXPIRY_MS),
+        message.maxUses ?? null
+      );
+      invite.created_by_username = access.client.username;
+
+      ws.send(JSON.stringify({
+        t: 'icOk',
+        channelId: message.channelId,
+        invite: this.toInvite(invite),
       }));
+    } catch (error) {
+      console.error('[Channels] Create invite error:', error);
+      this.sendError(ws, 'Failed to create invite');
     }
   }
 
   /**
-   * Load user's channels on connect
+   * Handle listing a channel's usable invites (admins)
    */
-  async loadUserChannels(ws: WebSocket, userId: number): Promise<void> {
-    const channels = await this.db.getUserChannels(userId);
+  async handleListInvites(ws: WebSocket, message: ListInvitesMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'admin');
+    if (!access) return;
 
-    for (const channel of channels) {
-      await this.subscribeToChannel(ws, channel.id);
-      await this.sendChannelSync(ws, channel.id, channel.name);
+    const invites = await this.db.getChannelInvites(message.channelId);
+    ws.send(JSON.stringify({
+      t: 'ilOk',
+      channelId: message.channelId,
+      invites: invites.map(invite => this.toInvite(invite)),
+    }));
+  }
+
+  /**
+   * Handle revoking an invite (admins)
+   */
+  async handleRevokeInvite(ws: WebSocket, message: RevokeInviteMessage): Promise<void> {
+    const access = await this.authorize(ws, message.channelId, 'admin');
+    if (!access) return;
+
+    const revoked = await this.db.revokeInvite(message.channelId, message.code);
+    if (!revoked) {
+      this.sendError(ws, 'Invite not found or already revoked');
+      return;
     }
+
+    ws.send(JSON.stringify({ t: 'irOk', channelId: message.channelId, code: message.code.toUpperCase() }));
+    console.log(`[Channels] ${access.client.username} revoked invite ${message.code} for ${message.channelId}`);
   }
 
   /**
-   * Cleanup on disconnect
+   * Send the specific reason an invite cannot be used. Returns true if it was rejected.
    */
-  async handleDisconnect(ws: WebSocket): Promise<void> {
-    const channels = this.clientChannels.get(ws);
-    if (channels) {
-      for (const channelId of channels) {
-        await this.unsubscribeFromChannel(ws, channelId);
-      }
+  private rejectUnusableInvite(ws: WebSocket, invite: DbChannelInvite): boolean {
+    if (invite.revoked) {
+      this.sendError(ws, 'This invite has been revoked', 'invite_revoked');
+    } else if (Number(invite.expires_at) <= Date.now()) {
+      this.sendError(ws, 'This invite has expired', 'invite_expired');
+    } else if (invite.max_uses !== null && invite.uses >= invite.max_uses) {
+      this.sendError(ws, 'This invite has reached its maximum number of uses', 'invite_exhausted');
+    } else {
+      return false;
     }
+    return true;
+  }
+
+  private toInvite(invite: DbChannelInvite): ChannelInvite {
+    return {
+      code: invite.code,
+      createdBy: invite.created_by_username ?? undefined,
+      expiresAt: Number(invite.expires_at),  // BIGINT arrives as a string
+      maxUses: invite.max_uses ?? undefined,
+      uses: invite.uses,
+    };
+  }
+
+  /**
+   * Apply membership changes published by any node to local sockets:
+   * kicked members and everyone in a deleted channel stop receiving it.
+   */
+  async handleChannelEvent(channelId: string, message: string, sockets: WebSocket[]): Promise<void> {
+    const event = JSON.parse(message) as { t: string; id?: string };
+    if (event.t !== 'ck' && event.t !== 'cd') return;
+
+    for (const ws of sockets) {
+      const client = this.getClient(ws);
+      if (!client || (event.t === 'ck' && client.username !== event.id)) continue;
+      await this.unsubscribeFromChannel(ws, channelId);
+    }
+  }
+
+  /**
+   * Check the sender is a member with at least the required role
+   */
+  private async authorize(
+    ws: WebSocket,
+    channelId: string,
+    required: ChannelRole
+  ): Promise<{ client: ClientData; channel: DbChannel; role: ChannelRole } | null> {
+    const client = this.getClient(ws);
+    if (!client?.githubId) {
+      this.sendError(ws, 'Must be logged in with GitHub to manage channels');
+      return null;
+    }
+
+    const channel = await this.db.getChannelById(channelId);
+    const member = channel ? await this.db.getChannelMember(channelId, client.username) : null;
+    if (!channel || !member) {
+      this.sendError(ws, 'Not a member of this channel');
+      return null;
+    }
+
+    const role = this.roleOf(channel, member);
+    if ((required === 'admin' && role === 'member') || (required === 'owner' && role !== 'owner')) {
+      this.sendError(ws, required === 'owner'
+        ? 'Only the channel owner can do that'
+        : 'Only channel admins can do that');
+      return null;
+    }
+
+    return { client, channel, role };
+  }
+
+  private roleOf(channel: DbChannel, member: DbChannelMember): ChannelRole {
+    return channel.owner_id === member.user_id ? 'owner' : member.role;
+  }
+
+  private async publishRole(channelId: string, username: string, role: ChannelRole): Promise<void> {
+    await this.pubsub.publishToChannel(channelId, { t: 'cr', channelId, id: username, role });
+  }
+
+  /**
+   * Cleanup on disconnect. Redis subscriptions are dropped by PubSubService.unsubscribeAll.
+   */
+  handleDisconnect(ws: WebSocket): void {
     this.clientChannels.delete(ws);
   }
 
+  /**
+   * Drop a user's memberships from Redis once they are offline everywhere;
+   * the next login reloads them from the database
+   */
+  async forgetUser(username: string): Promise<void> {
+    await this.pubsub.forgetMemberships(username);
+  }
+
   /**
    * Get channels for a WebSocket
    */
   getClientChannels(ws: WebSocket): Set<string> {
     return this.clientChannels.get(ws) ?? new Set();
   }
+
+  private sendError(ws: WebSocket, error: string, code?: string): void {
+    ws.send(JSON.stringify({ t: 'error', error, code }));
+  }
 }
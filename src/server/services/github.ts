@@ -30,9 +30,10 @@ export class GitHubService {
   }
 
   /**
-   * Get user's followers (IDs only for efficiency)
+   * Get user's followers (IDs only for efficiency).
+   * Errors yield an empty list unless strict.
    */
-  async getFollowers(token: string): Promise<number[]> {
+  async getFollowers(token: string, strict = false): Promise<number[]> {
     try {
       const octokit = new Octokit({ auth: token });
       const followers: number[] = [];
@@ -47,15 +48,17 @@ export class GitHubService {
       }
 
       return followers;
-    } catch {
+    } catch (error) {
+      if (strict) throw error;
       return [];
     }
   }
 
   /**
-   * Get users that the authenticated user follows (IDs only)
+   * Get users that the authenticated user follows (IDs only).
+   * Errors yield an empty list unless strict.
    */
-  async getFollowing(token: string): Promise<number[]> {
+  async getFollowing(token: string, strict = false): Promise<number[]> {
     try {
       const octokit = new Octokit({ auth: token });
       const following: number[] = [];
@@ -70,21 +73,23 @@ export class GitHubService {
       }
 
       return following;
-    } catch {
+    } catch (error) {
+      if (strict) throw error;
       return [];
     }
   }
 
   /**
-   * Get full relationship data
+   * Get full relationship data. When strict, a failed fetch throws
+   * instead of looking like an empty list.
    */
-  async getRelationships(token: string): Promise<{
+  async getRelationships(token: string, strict = false): Promise<{
     followers: number[];
     following: number[];
   }> {
     const [followers, following] = await Promise.all([
-      this.getFollowers(token),
-      this.getFollowing(token),
+      this.getFollowers(token, strict),
+      this.getFollowing(token, strict),
     ]);
     return { followers, following };
   }
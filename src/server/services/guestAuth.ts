@@ -0,0 +1,57 @@
+/**
+ * Guest Auth Service
+ * Signs and verifies the credentials that prove ownership of a guest username
+ */
+
+import crypto from 'crypto';
+
+export interface GuestCredential {
+  username: string;
+  tokenId: string;       // Matches guest_users.token_id while the claim stands
+}
+
+export class GuestAuthService {
+  private secret: Buffer;
+
+  constructor(secret?: string) {
+    if (!secret) {
+      console.warn('[GuestAuth] GUEST_TOKEN_SECRET not set - guest credentials will not survive a restart');
+    }
+    this.secret = secret ? Buffer.from(secret) : crypto.randomBytes(32);
+  }
+
+  /**
+   * Issue a fresh credential for a username
+   */
+  issue(username: string): { token: string; credential: GuestCredential } {
+    const credential = { username, tokenId: crypto.randomBytes(16).toString('hex') };
+    const payload = Buffer.from(JSON.stringify({ u: credential.username, n: credential.tokenId })).toString('base64url');
+    return { token: `${payload}.${this.sign(payload)}`, credential };
+  }
+
+  /**
+   * Verify a credential's signature. Returns null if forged or malformed.
+   */
+  verify(token: string): GuestCredential | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const { u, n } = JSON.parse(Buffer.from(payload, 'base64url').toString()) as { u?: unknown; n?: unknown };
+      if (typeof u !== 'string' || typeof n !== 'string') return null;
+      return { username: u, tokenId: n };
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
@@ -1,4 +1,9 @@
-export { PubSubService } from './pubsub';
+export { PubSubService, type DeliveryRouter, type PresenceSnapshot } from './pubsub';
 export { GitHubService } from './github';
+export { GuestAuthService, type GuestCredential } from './guestAuth';
 export { MessageHandler, type ClientData } from './messageHandler';
 export { ChannelHandler } from './channelHandler';
+export { VisibilityService, type VisibilityChangeEvent } from './visibility';
+export { redactUser, redactDelta, redactMessage, type SharePreferences } from './redaction';
+export { RateLimiter, type RateLimitResult } from './rateLimiter';
+export { SessionRegistry, type NodeSessions, type OrphanedSessionsHandler } from './sessionRegistry';
@@ -5,27 +5,42 @@
 
 import type { WebSocket } from 'ws';
 import type { DatabaseService } from '../database';
-import type { PubSubService } from './pubsub';
+import type { PubSubService, PresenceSnapshot } from './pubsub';
 import type { GitHubService } from './github';
+import type { GuestAuthService } from './guestAuth';
+import { VisibilityService, type VisibilityProfile } from './visibility';
+import { RateLimiter } from './rateLimiter';
+import { ChannelHandler } from './channelHandler';
+import { SessionRegistry, type NodeSessions } from './sessionRegistry';
 import type {
   ClientMessage,
   StatusUpdateMessage,
   PrefsUpdateMessage,
   LoginMessage,
-  CreateChannelMessage,
-  JoinChannelMessage,
-  LeaveChannelMessage,
-  ChannelChatMessage,
+  UserOfflineMessage,
   SetStatusMessage,
+  AddCloseFriendMessage,
+  RemoveCloseFriendMessage,
+  ReleaseGuestNameMessage,
   CustomStatus,
+  CompactUser,
+  DbPreferences,
+  DbChannelMember,
+  DeltaUpdateMessage,
+  ActivityType,
+  StatusType,
 } from '../../shared/types';
-import { ACTIVITY_PRIORITY, MAX_CHANNEL_MEMBERS } from '../../shared/types';
+import { ACTIVITY_PRIORITY, STATUS_PRIORITY, SESSION_RESUME_TTL_MS } from '../../shared/types';
+import { parseMessage, validateClientMessage } from '../../shared/validation';
 import crypto from 'crypto';
 
+const RELATIONSHIP_REFRESH_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+
 export interface ClientData {
   ws: WebSocket;
   username: string;
   githubId?: number;
+  githubToken?: string;  // Kept in memory only, to refresh relationships
   avatar?: string;
   status: string;
   activity: string;
@@ -33,6 +48,7 @@ export interface ClientData {
   language: string;
   followers: number[];
   following: number[];
+  friends: string[];
   resumeToken?: string;
   customStatus?: CustomStatus;
 }
@@ -40,22 +56,87 @@ export interface ClientData {
 export class MessageHandler {
   private clients: Map<WebSocket, ClientData> = new Map();
   private userSessions: Map<string, Set<WebSocket>> = new Map();
+  private offlineTimers: Map<string, NodeJS.Timeout> = new Map();
+  private publishedStatus: Map<string, PresenceSnapshot> = new Map();
+  private visibility: VisibilityService;
+  private rateLimiter: RateLimiter;
+  private channels: ChannelHandler;
+  private sessions: SessionRegistry;
+  private relationshipTimer: NodeJS.Timeout | null = null;
 
   constructor(
     private db: DatabaseService,
     private pubsub: PubSubService,
-    private github: GitHubService
-  ) { }
+    private github: GitHubService,
+    private guestAuth: GuestAuthService
+  ) {
+    this.visibility = new VisibilityService(db, (ws) => this.clients.get(ws));
+    this.rateLimiter = new RateLimiter(pubsub.publisher);
+    this.sessions = new SessionRegistry(pubsub.publisher, (orphaned) => this.handleOrphanedSessions(orphaned));
+    this.channels = new ChannelHandler(
+      db,
+      pubsub,
+      (ws) => this.clients.get(ws),
+      (client) => this.toCompactUser(client),
+      (viewer, members) => this.buildMemberList(viewer, members)
+    );
+    this.pubsub.setDeliveryRouter((channel, message, sockets) => {
+      this.visibility.route(channel, message, sockets);
+      if (channel.startsWith('channel:')) {
+        this.channels.handleChannelEvent(channel.slice('channel:'.length), message, sockets).catch((error) => {
+          console.error('[Handler] Channel event error:', error);
+        });
+      }
+    });
+  }
+
+  /**
+   * Join the cluster: heartbeats and cleanup after crashed nodes
+   */
+  async start(): Promise<void> {
+    await this.sessions.start();
+    this.relationshipTimer = setInterval(() => {
+      this.refreshAllRelationships().catch((error) => {
+        console.error('[Server] Relationship refresh error:', error);
+      });
+    }, RELATIONSHIP_REFRESH_INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    if (this.relationshipTimer) {
+      clearInterval(this.relationshipTimer);
+      this.relationshipTimer = null;
+    }
+    for (const timer of this.offlineTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.offlineTimers.clear();
+    await this.sessions.stop();
+  }
 
   /**
    * Handle incoming message
    */
   async handleMessage(ws: WebSocket, data: string): Promise<void> {
-    let message: ClientMessage;
-    try {
-      message = JSON.parse(data) as ClientMessage;
-    } catch {
-      this.sendError(ws, 'Invalid JSON');
+    const result = parseMessage(data, validateClientMessage);
+    if (!result.ok) {
+      this.sendError(ws, result.error.error, result.error.code, result.error.field);
+      return;
+    }
+    const message: ClientMessage = result.value;
+
+    const limit = await this.rateLimiter.consume(ws, message.t, this.clients.get(ws)?.username);
+    if (!limit.allowed) {
+      ws.send(JSON.stringify({
+        t: 'error',
+        error: 'Rate limit exceeded',
+        code: 'rate_limited',
+        retryAfter: limit.retryAfterMs,
+      }));
+      if (limit.disconnect) {
+        console.log(`[Handler] Disconnecting flooding client ${this.clients.get(ws)?.username ?? '(anonymous)'}`);
+        ws.close(1008, 'Rate limit exceeded');
+      }
       return;
     }
 
@@ -69,21 +150,62 @@ export class MessageHandler {
       case 'prefsUpdate':
         await this.handlePrefsUpdate(ws, message);
         break;
+      case 'rf': {
+        const client = this.clients.get(ws);
+        if (client) await this.refreshRelationships(client.username);
+        break;
+      }
       case 'hb':
         ws.send(JSON.stringify({ t: 'hb' }));
         break;
       // Channel messages (Phase 2)
       case 'cc':
-        await this.handleCreateChannel(ws, message);
+        await this.channels.handleCreateChannel(ws, message);
         break;
       case 'jc':
-        await this.handleJoinChannel(ws, message);
+        await this.channels.handleJoinChannel(ws, message);
         break;
       case 'lc':
-        await this.handleLeaveChannel(ws, message);
+        await this.channels.handleLeaveChannel(ws, message);
         break;
       case 'cm':
-        await this.handleChannelMessage(ws, message);
+        await this.channels.handleChannelMessage(ws, message);
+        break;
+      case 'ck':
+        await this.channels.handleKickMember(ws, message);
+        break;
+      case 'cr':
+        await this.channels.handleSetMemberRole(ws, message);
+        break;
+      case 'ct':
+        await this.channels.handleTransferOwnership(ws, message);
+        break;
+      case 'cn':
+        await this.channels.handleRenameChannel(ws, message);
+        break;
+      case 'cd':
+        await this.channels.handleDeleteChannel(ws, message);
+        break;
+      case 'ch':
+        await this.channels.handleChannelHistory(ws, message);
+        break;
+      case 'ce':
+        await this.channels.handleEditMessage(ws, message);
+        break;
+      case 'cx':
+        await this.channels.handleDeleteMessage(ws, message);
+        break;
+      case 'rx':
+        await this.channels.handleReaction(ws, message);
+        break;
+      case 'ic':
+        await this.channels.handleCreateInvite(ws, message);
+        break;
+      case 'il':
+        await this.channels.handleListInvites(ws, message);
+        break;
+      case 'ir':
+        await this.channels.handleRevokeInvite(ws, message);
         break;
       // Rich Status (Phase 2)
       case 'ss':
@@ -92,8 +214,22 @@ export class MessageHandler {
       case 'clr':
         await this.handleClearStatus(ws);
         break;
+      // Close Friends
+      case 'cfa':
+        await this.handleAddCloseFriend(ws, message);
+        break;
+      case 'cfr':
+        await this.handleRemoveCloseFriend(ws, message);
+        break;
+      case 'cfl':
+        await this.handleListCloseFriends(ws);
+        break;
+      // Guest Identity
+      case 'gr':
+        await this.handleReleaseGuestName(ws, message);
+        break;
       default:
-        this.sendError(ws, 'Unknown message type');
+        this.sendError(ws, 'Unknown message type', 'unknown_type');
     }
   }
 
@@ -108,9 +244,18 @@ export class MessageHandler {
       const session = await this.pubsub.getResumeToken(resumeToken);
       if (session && session.username === username) {
         console.log(`[Server] Session resumed: ${username}`);
+        await this.pubsub.deleteResumeToken(resumeToken);
+
+        // Restore relationships stored at the original login
+        const user = session.githubId ? await this.db.getUserById(session.githubId) : null;
         await this.setupClient(ws, {
           username,
           githubId: session.githubId,
+          githubToken: token,
+          avatar: user?.avatar,
+          followers: user?.followers,
+          following: user?.following,
+          presence: session.presence,
           isResume: true,
         });
         return;
@@ -133,6 +278,7 @@ export class MessageHandler {
       await this.setupClient(ws, {
         username: ghUser.login,
         githubId: ghUser.id,
+        githubToken: token,
         avatar: ghUser.avatar_url,
         followers,
         following,
@@ -140,22 +286,50 @@ export class MessageHandler {
       });
     } else {
       // Guest login
-      const isUnique = await this.db.registerGuest(username);
-      if (!isUnique) {
-        const existing = this.getClientByUsername(username);
-        if (existing) {
-          ws.send(JSON.stringify({ t: 'loginError', error: 'Username already taken' }));
-          return;
-        }
+      const auth = await this.authenticateGuest(username, message.guestToken);
+      if ('error' in auth) {
+        ws.send(JSON.stringify({ t: 'loginError', error: auth.error }));
+        return;
       }
 
       await this.setupClient(ws, {
         username,
+        guestToken: auth.issuedToken,
         isResume: false,
       });
     }
   }
 
+  /**
+   * Check a guest owns the username, claiming it if it is free.
+   * Returns a newly issued credential when the name was just claimed.
+   */
+  private async authenticateGuest(
+    username: string,
+    guestToken?: string
+  ): Promise<{ issuedToken?: string } | { error: string }> {
+    const [githubUser] = await this.db.getUsersByUsernames([username]);
+    if (githubUser) {
+      return { error: 'Username belongs to a GitHub account' };
+    }
+
+    if (guestToken) {
+      const credential = this.guestAuth.verify(guestToken);
+      if (credential?.username === username &&
+        await this.db.isGuestCredentialValid(username, credential.tokenId)) {
+        return {};
+      }
+    }
+
+    // No valid credential: only a free name can be used
+    const { token, credential } = this.guestAuth.issue(username);
+    if (!await this.db.claimGuest(username, credential.tokenId)) {
+      return { error: 'Username already taken' };
+    }
+    console.log(`[Server] Guest name claimed: ${username}`);
+    return { issuedToken: token };
+  }
+
   /**
    * Set up client after successful auth
    */
@@ -164,13 +338,19 @@ export class MessageHandler {
     data: {
       username: string;
       githubId?: number;
+      githubToken?: string;
       avatar?: string;
       followers?: number[];
       following?: number[];
+      presence?: PresenceSnapshot;
+      guestToken?: string;
       isResume: boolean;
     }
   ): Promise<void> {
-    const { username, githubId, avatar, followers = [], following = [], isResume } = data;
+    const { username, githubId, githubToken, avatar, followers = [], following = [], presence, guestToken, isResume } = data;
+
+    // Back within the grace period: friends never see this user go offline
+    await this.cancelOffline(username);
 
     // Generate resume token
     const newResumeToken = crypto.randomUUID();
@@ -181,31 +361,45 @@ export class MessageHandler {
       connectedAt: Date.now(),
     });
 
+    // Custom status outlives sessions until it expires
+    const stored = (await this.pubsub.getStatuses([username])).get(username);
+
     // Store client data
     const clientData: ClientData = {
       ws,
       username,
       githubId,
+      githubToken,
       avatar,
-      status: 'Online',
-      activity: 'Idle',
-      project: '',
-      language: '',
+      status: presence?.status ?? 'Online',
+      activity: presence?.activity ?? 'Idle',
+      project: presence?.project ?? '',
+      language: presence?.language ?? '',
       followers,
       following,
+      friends: [],
       resumeToken: newResumeToken,
+      customStatus: stored?.cs,
     };
     this.clients.set(ws, clientData);
 
-    // Track multi-window sessions
+    // Track multi-window sessions, on this node and across the cluster
+    const isFirstSession = !this.userSessions.has(username) && !await this.sessions.hasSessions(username);
     if (!this.userSessions.has(username)) {
       this.userSessions.set(username, new Set());
     }
     this.userSessions.get(username)?.add(ws);
+    await this.syncSessions(username);
 
     // Subscribe to friends' presence channels
     if (githubId) {
-      const friends = await this.getFriendUsernames(githubId, followers, following);
+      const friends = await this.getFriendUsernames(followers, following);
+      clientData.friends = friends;
+
+      // Load visibility rules for self and friends before any delivery
+      await this.visibility.refresh(githubId);
+      await this.visibility.load(friends);
+
       await this.pubsub.subscribeToMany(ws, friends, username);
     }
 
@@ -216,21 +410,30 @@ export class MessageHandler {
       githubId,
       followers,
       following,
+      guestToken,
     }));
 
     // Send initial sync of online friends
     await this.sendInitialSync(ws, clientData);
 
-    // Publish online event (if not resume)
-    if (!isResume) {
-      await this.pubsub.publishOnline(username, {
+    // Rejoin every channel the user is still a member of
+    await this.channels.loadUserChannels(ws, clientData);
+
+    // Publish online event for a brand-new presence; otherwise this window
+    // only matters if it changes the aggregate across windows
+    if (isFirstSession && !isResume && !this.publishedStatus.has(username)) {
+      this.publishedStatus.set(username, this.snapshot(clientData));
+      await this.pubsub.updateStatus(username, this.toCompactUser(clientData));
+      await this.pubsub.publishOnline(username, this.toCompactUser(clientData));
+      await this.channels.broadcastStatusToChannels({
         id: username,
-        a: avatar,
-        s: 'Online',
-        act: 'Idle',
-        p: '',
-        l: '',
+        s: clientData.status,
+        a: clientData.activity,
+        p: clientData.project,
+        l: clientData.language,
       });
+    } else {
+      await this.publishAggregatedStatus(username);
     }
 
     console.log(`[Server] Client connected: ${username} (${isResume ? 'resumed' : 'new'})`);
@@ -243,44 +446,101 @@ export class MessageHandler {
     const client = this.clients.get(ws);
     if (!client) return;
 
-    let changed = false;
-    const delta: Record<string, string> = { id: client.username };
+    // Record this window's state; friends only see the aggregate
+    if (message.s) client.status = message.s;
+    if (message.a) client.activity = message.a;
+    if (message.p !== undefined) client.project = message.p;
+    if (message.l !== undefined) client.language = message.l;
+
+    await this.syncSessions(client.username);
+    await this.publishAggregatedStatus(client.username);
+  }
+
+  /**
+   * Write this node's sessions for a user to the registry
+   */
+  private async syncSessions(username: string): Promise<boolean> {
+    const aggregate = this.getAggregatedStatus(username);
+    if (!aggregate) {
+      return this.sessions.unregister(username);
+    }
 
-    if (message.s && message.s !== client.status) {
-      client.status = message.s;
-      delta['s'] = message.s;
+    await this.sessions.register(username, {
+      sockets: this.userSessions.get(username)?.size ?? 0,
+      githubId: aggregate.githubId,
+      status: this.toCompactUser(aggregate),
+    });
+    return true;
+  }
+
+  /**
+   * Publish the delta between the last published aggregate and the current
+   * one across all of a user's windows, on every node. Nothing is sent if it
+   * is unchanged.
+   */
+  private async publishAggregatedStatus(username: string): Promise<void> {
+    const aggregate = (await this.sessions.getStatuses([username])).get(username);
+    if (!aggregate) return;
+
+    const previous = this.publishedStatus.get(username);
+    const next: PresenceSnapshot = {
+      status: aggregate.s,
+      activity: aggregate.act,
+      project: aggregate.p ?? '',
+      language: aggregate.l ?? '',
+    };
+
+    const delta: Omit<DeltaUpdateMessage, 't'> = { id: username };
+    let changed = false;
+    if (next.status !== previous?.status) {
+      delta.s = next.status;
       changed = true;
     }
-    if (message.a && message.a !== client.activity) {
-      client.activity = message.a;
-      delta['a'] = message.a;
+    if (next.activity !== previous?.activity) {
+      delta.a = next.activity;
       changed = true;
     }
-    if (message.p !== undefined && message.p !== client.project) {
-      client.project = message.p;
-      delta['p'] = message.p;
+    if (next.project !== previous?.project) {
+      delta.p = next.project;
       changed = true;
     }
-    if (message.l !== undefined && message.l !== client.language) {
-      client.language = message.l;
-      delta['l'] = message.l;
+    if (next.language !== previous?.language) {
+      delta.l = next.language;
       changed = true;
     }
 
-    // Publish delta update if anything changed
-    if (changed) {
-      await this.pubsub.publishDelta(client.username, delta as Omit<import('../../shared/types').DeltaUpdateMessage, 't'>);
+    this.publishedStatus.set(username, next);
+    if (!changed) return;
 
-      // Update cache
-      await this.pubsub.cacheUserStatus(client.username, {
-        status: client.status,
-        activity: client.activity,
-        project: client.project,
-        language: client.language,
-      });
+    await this.pubsub.updateStatus(username, {
+      s: next.status,
+      act: next.activity,
+      p: next.project,
+      l: next.language,
+    });
+    await this.pubsub.publishDelta(username, delta);
+    await this.channels.broadcastStatusToChannels(delta);
+  }
+
+  /**
+   * Apply a change to every window of a user
+   */
+  private forEachSession(username: string, fn: (client: ClientData) => void): void {
+    for (const ws of this.userSessions.get(username) ?? []) {
+      const client = this.clients.get(ws);
+      if (client) fn(client);
     }
   }
 
+  private snapshot(client: ClientData): PresenceSnapshot {
+    return {
+      status: client.status,
+      activity: client.activity,
+      project: client.project,
+      language: client.language,
+    };
+  }
+
   /**
    * Handle preferences update
    */
@@ -288,17 +548,123 @@ export class MessageHandler {
     const client = this.clients.get(ws);
     if (!client?.githubId) return;
 
-    await this.db.updatePreferences(client.githubId, {
+    const prefs: Partial<DbPreferences> = {
       visibility_mode: message.prefs.visibilityMode,
       share_project: message.prefs.shareProjectName,
       share_language: message.prefs.shareLanguage,
       share_activity: message.prefs.shareActivity,
-    });
+    };
+    const previous = await this.visibility.refresh(client.githubId);
+
+    // Clients resend their preferences on every login, mostly unchanged
+    const stored = previous?.prefs;
+    if (stored && Object.entries(prefs).every(([key, value]) =>
+      value === undefined || stored[key as keyof DbPreferences] === value)) {
+      return;
+    }
+
+    await this.db.updatePreferences(client.githubId, prefs);
+    await this.publishVisibilityChange(client, previous);
+  }
+
+  /**
+   * Announce a change to a user's visibility rules so every node
+   * re-evaluates who can see them, without anyone reconnecting
+   */
+  private async publishVisibilityChange(
+    client: ClientData,
+    previous: VisibilityProfile | null
+  ): Promise<void> {
+    if (!client.githubId) return;
+
+    const current = await this.visibility.refresh(client.githubId);
+    if (!current) return;
+
+    const status = this.getAggregatedStatus(client.username) ?? client;
+    const event = VisibilityService.changeEvent(previous, current, this.toCompactUser(status));
+    await this.pubsub.publishPresenceEvent(client.username, event);
+
+    const channels = await this.db.getUserChannels(client.githubId);
+    for (const channel of channels) {
+      await this.pubsub.publishToChannel(channel.id, { ...event, channelId: channel.id });
+    }
+  }
+
+  /**
+   * Refresh relationships for every GitHub user connected to this node
+   */
+  private async refreshAllRelationships(): Promise<void> {
+    for (const username of [...this.userSessions.keys()]) {
+      await this.refreshRelationships(username);
+    }
+  }
 
-    // If visibility changed, may need to send offline to some users
-    if (message.prefs.visibilityMode === 'invisible') {
-      await this.pubsub.publishOffline(client.username);
+  /**
+   * Re-fetch a user's followers/following from GitHub and move every one of
+   * their windows on this node onto the new friend set. Only the difference
+   * is subscribed or unsubscribed, and the client is told who appeared or left.
+   */
+  private async refreshRelationships(username: string): Promise<void> {
+    const sessions = [...this.userSessions.get(username) ?? []]
+      .map(ws => this.clients.get(ws))
+      .filter((client): client is ClientData => !!client?.githubId);
+    const client = sessions.find(session => session.githubToken);
+    if (!client?.githubId || !client.githubToken) return;
+
+    // Resumed sessions bring an unchecked token, so make sure it is still this user's
+    const ghUser = await this.github.validateToken(client.githubToken);
+    if (ghUser?.id !== client.githubId) return;
+
+    let relationships: { followers: number[]; following: number[] };
+    try {
+      relationships = await this.github.getRelationships(client.githubToken, true);
+    } catch (error) {
+      // A failed fetch must not read as unfollowing everyone
+      console.error(`[Server] Could not refresh relationships for ${username}:`, error);
+      return;
+    }
+    const { followers, following } = relationships;
+    if (sameIds(followers, client.followers) && sameIds(following, client.following)) return;
+
+    const previous = await this.visibility.refresh(client.githubId);
+    await this.db.updateRelationships(client.githubId, followers, following);
+
+    const friends = await this.getFriendUsernames(followers, following);
+    const before = new Set(client.friends);
+    const after = new Set(friends);
+    const added = friends.filter(friend => !before.has(friend));
+    const removed = client.friends.filter(friend => !after.has(friend));
+
+    await this.visibility.load(added);
+    const appeared = await this.getOnlineStatuses(added);
+    const disappeared = await this.getOnlineStatuses(removed);
+
+    for (const session of sessions) {
+      const wasVisible = new Set(removed.filter(friend => this.visibility.canSee(session, friend)));
+      session.followers = followers;
+      session.following = following;
+      session.friends = friends;
+
+      await this.pubsub.unsubscribeFromMany(session.ws, removed);
+      await this.pubsub.subscribeToMany(session.ws, added, username);
+
+      for (const [friend, status] of appeared) {
+        if (this.visibility.canSee(session, friend)) {
+          session.ws.send(JSON.stringify({ t: 'o', ...this.visibility.redactFor(session, status) }));
+        }
+      }
+      for (const friend of disappeared.keys()) {
+        if (wasVisible.has(friend)) {
+          const offline: UserOfflineMessage = { t: 'x', id: friend, ts: Date.now() };
+          session.ws.send(JSON.stringify(offline));
+        }
+      }
     }
+
+    // New followers can change who may see this user
+    await this.publishVisibilityChange(client, previous);
+
+    console.log(`[Server] Relationships refreshed for ${username}: +${added.length} -${removed.length}`);
   }
 
   /**
@@ -308,54 +674,147 @@ export class MessageHandler {
     const client = this.clients.get(ws);
     if (!client) return;
 
+    // Resume tokens stay valid for SESSION_RESUME_TTL_MS after the socket drops
+    if (client.resumeToken) {
+      await this.pubsub.setResumeToken(client.resumeToken, {
+        userId: client.githubId?.toString() ?? client.username,
+        username: client.username,
+        githubId: client.githubId,
+        connectedAt: Date.now(),
+        presence: this.snapshot(client),
+      });
+    }
+
     // Remove from multi-window tracking
     const sessions = this.userSessions.get(client.username);
     sessions?.delete(ws);
 
-    // Only publish offline if this was the last session
+    // Cleanup subscriptions
+    await this.pubsub.unsubscribeAll(ws);
+    this.channels.handleDisconnect(ws);
+    this.clients.delete(ws);
+
     if (!sessions || sessions.size === 0) {
       this.userSessions.delete(client.username);
-      await this.pubsub.publishOffline(client.username);
+    }
 
-      if (client.githubId) {
-        await this.db.updateLastSeen(client.githubId);
-      }
+    // Mark pending offline before unregistering, so a resume on another node
+    // in between always finds the marker to cancel
+    const marker = this.userSessions.has(client.username)
+      ? null
+      : await this.pubsub.markPendingOffline(client.username);
+
+    // Only go offline if this was the last session on any node, and only after the grace period
+    if (await this.syncSessions(client.username)) {
+      // Remaining windows may now have a different aggregate
+      await this.publishAggregatedStatus(client.username);
+    } else if (marker) {
+      this.scheduleOffline(client, marker);
     }
 
-    // Cleanup subscriptions
-    await this.pubsub.unsubscribeAll(ws);
-    this.clients.delete(ws);
+    if (!this.userSessions.has(client.username)) {
+      this.visibility.prune((username) =>
+        this.userSessions.has(username) || this.pubsub.isSubscribed(`presence:${username}`));
+    }
 
     console.log(`[Server] Client disconnected: ${client.username}`);
   }
 
   /**
-   * Send initial sync of online friends
+   * Publish offline once SESSION_RESUME_TTL_MS passes without the user
+   * coming back. The pending marker lives in Redis so a resume on any node
+   * cancels it.
+   */
+  private scheduleOffline(client: ClientData, marker: string): void {
+    const { username, githubId } = client;
+
+    this.clearOfflineTimer(username);
+    this.offlineTimers.set(username, setTimeout(async () => {
+      this.offlineTimers.delete(username);
+      if (!this.userSessions.has(username)) {
+        this.publishedStatus.delete(username);
+      }
+      try {
+        if (!await this.pubsub.claimPendingOffline(username, marker)) return;
+        // Back on another node before it could cancel the marker
+        if (await this.sessions.hasSessions(username)) return;
+
+        await this.pubsub.updateStatus(username, { s: 'Offline', act: 'Idle', p: '', l: '', ls: Date.now() });
+        await this.pubsub.publishOffline(username);
+        await this.channels.broadcastStatusToChannels({ id: username, s: 'Offline', a: 'Idle', p: '', l: '' });
+        if (!this.userSessions.has(username)) {
+          await this.channels.forgetUser(username);
+        }
+        if (githubId) {
+          await this.db.updateLastSeen(githubId);
+        }
+      } catch (error) {
+        console.error('[Server] Error publishing offline:', error);
+      }
+    }, SESSION_RESUME_TTL_MS));
+  }
+
+  /**
+   * Users whose last sessions were on a crashed node never got an offline
+   * published for them, so announce it here
+   */
+  private async handleOrphanedSessions(orphaned: NodeSessions[]): Promise<void> {
+    for (const { githubId, status } of orphaned) {
+      const username = status.id;
+      if (this.userSessions.has(username)) continue;
+      this.publishedStatus.delete(username);
+
+      await this.pubsub.updateStatus(username, { s: 'Offline', act: 'Idle', p: '', l: '', ls: Date.now() });
+      await this.pubsub.publishOffline(username);
+      if (githubId) {
+        for (const channel of await this.db.getUserChannels(githubId)) {
+          await this.pubsub.publishToChannel(channel.id, {
+            t: 'cu',
+            channelId: channel.id,
+            id: username,
+            s: 'Offline',
+            a: 'Idle',
+            p: '',
+            l: '',
+          });
+        }
+        await this.db.updateLastSeen(githubId);
+      }
+      await this.channels.forgetUser(username);
+    }
+    console.log(`[Server] Published offline for ${orphaned.length} users of a dead node`);
+  }
+
+  /**
+   * Cancel a pending offline for a user, wherever it was scheduled
+   */
+  private async cancelOffline(username: string): Promise<void> {
+    this.clearOfflineTimer(username);
+    await this.pubsub.cancelPendingOffline(username);
+  }
+
+  private clearOfflineTimer(username: string): void {
+    const timer = this.offlineTimers.get(username);
+    if (timer) {
+      clearTimeout(timer);
+      this.offlineTimers.delete(username);
+    }
+  }
+
+  /**
+   * Send initial sync of online friends, wherever they are connected
    */
   private async sendInitialSync(ws: WebSocket, client: ClientData): Promise<void> {
-    const onlineFriends: Array<{
-      id: string;
-      a?: string;
-      s: string;
-      act: string;
-      p?: string;
-      l?: string;
-    }> = [];
-
-    // Get online friends
-    for (const [, otherClient] of this.clients) {
-      if (otherClient.username === client.username) continue;
-
-      // Check if this client should see the other
-      if (this.canClientSee(client, otherClient)) {
-        onlineFriends.push({
-          id: otherClient.username,
-          a: otherClient.avatar,
-          s: otherClient.status,
-          act: otherClient.activity,
-          p: otherClient.project,
-          l: otherClient.language,
-        });
+    const onlineFriends: CompactUser[] = [];
+
+    // Friends are everyone the client follows or is followed by; one aggregated entry per user
+    const statuses = await this.getOnlineStatuses(client.friends);
+    for (const [username, status] of statuses) {
+      if (username === client.username) continue;
+
+      // The relationship is given, so only the target's visibility preferences matter
+      if (this.visibility.canSee(client, username)) {
+        onlineFriends.push(this.visibility.redactFor(client, status));
       }
     }
 
@@ -366,43 +825,60 @@ export class MessageHandler {
   }
 
   /**
-   * Check if client can see another client
+   * Build channel member list as seen by a viewer
    */
-  private canClientSee(viewer: ClientData, target: ClientData): boolean {
-    if (!viewer.githubId || !target.githubId) return false;
+  private async buildMemberList(viewer: ClientData, members: DbChannelMember[]): Promise<CompactUser[]> {
+    await this.visibility.load(members.map(m => m.username));
+    const statuses = await this.pubsub.getStatuses(members.map(m => m.username));
+
+    return members.map(m => {
+      const stored = statuses.get(m.username);
+      if (!stored || !this.visibility.canSee(viewer, m.username)) {
+        return { id: m.username, s: 'Offline', act: 'Idle', p: '', l: '' };
+      }
+      // Offline entries keep avatar, custom status and last seen
+      return stored.s === 'Offline' ? stored : this.visibility.redactFor(viewer, stored);
+    });
+  }
 
-    // Mutual: viewer follows target OR target follows viewer
-    return viewer.following.includes(target.githubId) ||
-      viewer.followers.includes(target.githubId) ||
-      target.following.includes(viewer.githubId) ||
-      target.followers.includes(viewer.githubId);
+  /**
+   * Stored status of the given users who are currently online
+   */
+  private async getOnlineStatuses(usernames: string[]): Promise<Map<string, CompactUser>> {
+    const statuses = await this.pubsub.getStatuses(usernames);
+    for (const [username, status] of statuses) {
+      if (status.s === 'Offline') statuses.delete(username);
+    }
+    return statuses;
   }
 
   /**
-   * Get usernames of friends from GitHub IDs
+   * Compact wire representation of a connected client
    */
-  private async getFriendUsernames(
-    userId: number,
-    followers: number[],
-    following: number[]
-  ): Promise<string[]> {
-    const allFriendIds = [...new Set([...followers, ...following])];
-    const users = await this.db.getUsersByIds(allFriendIds);
-    return users.map(u => u.username);
+  private toCompactUser(client: ClientData): CompactUser {
+    return {
+      id: client.username,
+      a: client.avatar,
+      s: client.status,
+      act: client.activity,
+      p: client.project,
+      l: client.language,
+      cs: client.customStatus,
+    };
   }
 
   /**
-   * Get client by username
+   * Get usernames of friends from GitHub IDs
    */
-  private getClientByUsername(username: string): ClientData | undefined {
-    for (const [, client] of this.clients) {
-      if (client.username === username) return client;
-    }
-    return undefined;
+  private async getFriendUsernames(followers: number[], following: number[]): Promise<string[]> {
+    const allFriendIds = [...new Set([...followers, ...following])];
+    const users = await this.db.getUsersByIds(allFriendIds);
+    return users.map(u => u.username);
   }
 
   /**
-   * Get aggregated status for a user (across multiple windows)
+   * Get aggregated status for a user (across multiple windows).
+   * Status wins first (Online over Away), then activity (Debugging over Idle).
    */
   getAggregatedStatus(username: string): ClientData | undefined {
     const sessions = this.userSessions.get(username);
@@ -415,7 +891,9 @@ export class MessageHandler {
       const client = this.clients.get(ws);
       if (!client) continue;
 
-      const priority = ACTIVITY_PRIORITY[client.activity as keyof typeof ACTIVITY_PRIORITY] ?? 0;
+      const statusPriority = STATUS_PRIORITY[client.status as StatusType] ?? 0;
+      const activityPriority = ACTIVITY_PRIORITY[client.activity as ActivityType] ?? 0;
+      const priority = statusPriority * 10 + activityPriority;
       if (priority > highestPriority) {
         highestPriority = priority;
         mostActive = client;
@@ -428,8 +906,8 @@ export class MessageHandler {
   /**
    * Send error to client
    */
-  private sendError(ws: WebSocket, error: string): void {
-    ws.send(JSON.stringify({ t: 'error', error }));
+  private sendError(ws: WebSocket, error: string, code?: string, field?: string): void {
+    ws.send(JSON.stringify({ t: 'error', error, code, field }));
   }
 
   /**
@@ -440,202 +918,145 @@ export class MessageHandler {
   }
 
   // ==========================================================================
-  // Channel Handlers (Phase 2)
+  // Rich Status Handlers (Phase 2)
   // ==========================================================================
 
   /**
-   * Handle channel creation
+   * Handle set custom status
    */
-  private async handleCreateChannel(ws: WebSocket, message: CreateChannelMessage): Promise<void> {
+  private async handleSetStatus(ws: WebSocket, message: SetStatusMessage): Promise<void> {
     const client = this.clients.get(ws);
-    if (!client?.githubId) {
-      this.sendError(ws, 'Must be logged in with GitHub to create channels');
-      return;
-    }
+    if (!client) return;
 
-    try {
-      const channel = await this.db.createChannel(message.name, client.githubId, client.username);
+    const customStatus: CustomStatus = {
+      text: message.text.slice(0, 128),
+      emoji: message.emoji,
+      expiresAt: message.expiresIn ? Date.now() + message.expiresIn : undefined,
+    };
 
-      // Subscribe creator to channel
-      await this.pubsub.subscribeToChannel(ws, channel.id, client.username);
+    // Custom status belongs to the user, not the window
+    this.forEachSession(client.username, (session) => {
+      session.customStatus = customStatus;
+    });
 
-      // Send success response
-      ws.send(JSON.stringify({
-        t: 'ccOk',
-        channelId: channel.id,
-        name: channel.name,
-        inviteCode: channel.invite_code,
-      }));
+    // Publish delta update with custom status
+    await this.pubsub.updateStatus(client.username, { cs: customStatus });
+    const delta = { id: client.username, cs: customStatus };
+    await this.pubsub.publishDelta(client.username, delta);
+    await this.channels.broadcastStatusToChannels(delta);
+  }
 
-      // Send channel sync with initial member (self)
-      ws.send(JSON.stringify({
-        t: 'cs',
-        channelId: channel.id,
-        name: channel.name,
-        members: [{
-          id: client.username,
-          a: client.avatar,
-          s: client.status,
-          act: client.activity,
-          p: client.project,
-          l: client.language,
-        }],
-      }));
-    } catch (error) {
-      this.sendError(ws, 'Failed to create channel');
-    }
+  /**
+   * Handle clear custom status
+   */
+  private async handleClearStatus(ws: WebSocket): Promise<void> {
+    const client = this.clients.get(ws);
+    if (!client) return;
+
+    this.forEachSession(client.username, (session) => {
+      session.customStatus = undefined;
+    });
+
+    // Publish delta update with cleared status
+    await this.pubsub.updateStatus(client.username, { cs: null });
+    const delta = { id: client.username, cs: null };
+    await this.pubsub.publishDelta(client.username, delta);
+    await this.channels.broadcastStatusToChannels(delta);
   }
 
+  // ==========================================================================
+  // Close Friends Handlers
+  // ==========================================================================
+
   /**
-   * Handle joining a channel
+   * Handle adding a close friend
    */
-  private async handleJoinChannel(ws: WebSocket, message: JoinChannelMessage): Promise<void> {
+  private async handleAddCloseFriend(ws: WebSocket, message: AddCloseFriendMessage): Promise<void> {
     const client = this.clients.get(ws);
     if (!client?.githubId) {
-      this.sendError(ws, 'Must be logged in with GitHub to join channels');
+      this.sendError(ws, 'Must be logged in with GitHub to manage close friends');
       return;
     }
 
-    const channel = await this.db.getChannelByInviteCode(message.inviteCode);
-    if (!channel) {
-      this.sendError(ws, 'Invalid invite code');
+    const friend = await this.db.getUserByUsername(message.username);
+    if (!friend) {
+      this.sendError(ws, 'User not found');
       return;
     }
-
-    const added = await this.db.addChannelMember(channel.id, client.githubId, client.username);
-    if (!added) {
-      this.sendError(ws, 'Channel is full or you are already a member');
+    if (friend.github_id === client.githubId) {
+      this.sendError(ws, 'Cannot add yourself as a close friend');
       return;
     }
 
-    // Subscribe to channel
-    await this.pubsub.subscribeToChannel(ws, channel.id, client.username);
-
-    // Get all members
-    const members = await this.db.getChannelMembers(channel.id);
-    const memberStatuses = members.map(m => {
-      const online = this.getClientByUsername(m.username);
-      return {
-        id: m.username,
-        a: online?.avatar,
-        s: online?.status ?? 'Offline',
-        act: online?.activity ?? 'Idle',
-        p: online?.project ?? '',
-        l: online?.language ?? '',
-      };
-    });
-
-    // Send join success
-    ws.send(JSON.stringify({
-      t: 'jcOk',
-      channelId: channel.id,
-      name: channel.name,
-    }));
-
-    // Send channel sync
-    ws.send(JSON.stringify({
-      t: 'cs',
-      channelId: channel.id,
-      name: channel.name,
-      members: memberStatuses,
-    }));
-
-    // Notify other channel members
-    await this.pubsub.publishToChannel(channel.id, {
-      t: 'cj',
-      channelId: channel.id,
-      member: {
-        id: client.username,
-        a: client.avatar,
-        s: client.status,
-        act: client.activity,
-        p: client.project,
-        l: client.language,
-      },
-    });
+    const previous = await this.visibility.refresh(client.githubId);
+    await this.db.addCloseFriend(client.githubId, friend.github_id);
+    await this.publishVisibilityChange(client, previous);
+    await this.handleListCloseFriends(ws);
   }
 
   /**
-   * Handle leaving a channel
+   * Handle removing a close friend
    */
-  private async handleLeaveChannel(ws: WebSocket, message: LeaveChannelMessage): Promise<void> {
+  private async handleRemoveCloseFriend(ws: WebSocket, message: RemoveCloseFriendMessage): Promise<void> {
     const client = this.clients.get(ws);
     if (!client?.githubId) return;
 
-    await this.db.removeChannelMember(message.channelId, client.githubId);
-    await this.pubsub.unsubscribeFromChannel(ws, message.channelId);
+    const friend = await this.db.getUserByUsername(message.username);
+    if (!friend) {
+      this.sendError(ws, 'User not found');
+      return;
+    }
 
-    // Notify other members
-    await this.pubsub.publishToChannel(message.channelId, {
-      t: 'cl',
-      channelId: message.channelId,
-      id: client.username,
-    });
+    const previous = await this.visibility.refresh(client.githubId);
+    await this.db.removeCloseFriend(client.githubId, friend.github_id);
+    await this.publishVisibilityChange(client, previous);
+    await this.handleListCloseFriends(ws);
   }
 
   /**
-   * Handle channel chat message
+   * Send the client's close friends list
    */
-  private async handleChannelMessage(ws: WebSocket, message: ChannelChatMessage): Promise<void> {
+  private async handleListCloseFriends(ws: WebSocket): Promise<void> {
     const client = this.clients.get(ws);
     if (!client?.githubId) return;
 
-    const isMember = await this.db.isChannelMember(message.channelId, client.githubId);
-    if (!isMember) {
-      this.sendError(ws, 'Not a member of this channel');
-      return;
-    }
+    const user = await this.db.getUserById(client.githubId);
+    const friends = await this.db.getUsersByIds(user?.close_friends ?? []);
 
-    // Broadcast to channel
-    await this.pubsub.publishToChannel(message.channelId, {
-      t: 'cm',
-      channelId: message.channelId,
-      id: client.username,
-      content: message.content,
-      ts: Date.now(),
-    });
+    ws.send(JSON.stringify({
+      t: 'cfList',
+      friends: friends.map(f => f.username),
+    }));
   }
 
   // ==========================================================================
-  // Rich Status Handlers (Phase 2)
+  // Guest Identity
   // ==========================================================================
 
   /**
-   * Handle set custom status
-   */
-  private async handleSetStatus(ws: WebSocket, message: SetStatusMessage): Promise<void> {
-    const client = this.clients.get(ws);
-    if (!client) return;
-
-    const customStatus: CustomStatus = {
-      text: message.text.slice(0, 128),
-      emoji: message.emoji,
-      expiresAt: message.expiresIn ? Date.now() + message.expiresIn : undefined,
-    };
-
-    client.customStatus = customStatus;
-
-    // Publish delta update with custom status
-    await this.pubsub.publishDelta(client.username, {
-      id: client.username,
-      cs: customStatus,
-    });
-  }
-
-  /**
-   * Handle clear custom status
+   * Handle a guest giving up their username
    */
-  private async handleClearStatus(ws: WebSocket): Promise<void> {
+  private async handleReleaseGuestName(ws: WebSocket, message: ReleaseGuestNameMessage): Promise<void> {
     const client = this.clients.get(ws);
-    if (!client) return;
+    if (!client || client.githubId) {
+      this.sendError(ws, 'Must be logged in as a guest to release a name');
+      return;
+    }
 
-    client.customStatus = undefined;
+    const credential = this.guestAuth.verify(message.guestToken);
+    if (credential?.username !== client.username ||
+      !await this.db.releaseGuest(client.username, credential.tokenId)) {
+      this.sendError(ws, 'Invalid guest credential');
+      return;
+    }
 
-    // Publish delta update with cleared status
-    await this.pubsub.publishDelta(client.username, {
-      id: client.username,
-      cs: null,
-    });
+    console.log(`[Server] Guest name released: ${client.username}`);
+    ws.send(JSON.stringify({ t: 'grOk', username: client.username }));
   }
 }
 
+function sameIds(a: number[], b: number[]): boolean {
+  if (a.length !== b.length) return false;
+  const ids = new Set(a);
+  return b.every(id => ids.has(id));
+}
@@ -5,28 +5,64 @@
 
 import Redis from 'ioredis';
 import type { WebSocket } from 'ws';
-import type { ServerMessage, DeltaUpdateMessage, UserOnlineMessage, UserOfflineMessage } from '../../shared/types';
+import type { ServerMessage, DeltaUpdateMessage, UserOnlineMessage, UserOfflineMessage, CompactUser, CustomStatus } from '../../shared/types';
 import { SESSION_RESUME_TTL_MS } from '../../shared/types';
 
+/** Presence fields as published to friends */
+export interface PresenceSnapshot {
+  status: string;
+  activity: string;
+  project: string;
+  language: string;
+}
+
 interface SessionData {
   userId: string;
   username: string;
   githubId?: number;
   connectedAt: number;
+  presence?: PresenceSnapshot;  // window state at disconnect, restored on resume
 }
 
-interface Subscription {
-  ws: WebSocket;
-  userId: string;
+/** Changes to a user's stored status; `cs: null` clears the custom status */
+export interface StatusUpdate {
+  s?: string;
+  act?: string;
+  p?: string;
+  l?: string;
+  a?: string;
+  cs?: CustomStatus | null;
+  ls?: number;
 }
 
+/** Decides which local sockets receive a pub/sub message, and in what form */
+export type DeliveryRouter = (channel: string, message: string, sockets: WebSocket[]) => void;
+
+export interface PubSubOptions {
+  /**
+   * Publish presence to this many shard channels instead of one channel per
+   * user, and filter deliveries against local subscriptions. Keeps the Redis
+   * channel count per node bounded. Every node must use the same value.
+   */
+  presenceShards?: number;
+}
+
+/** Most channels sent in one SUBSCRIBE/UNSUBSCRIBE command */
+const SUBSCRIBE_BATCH_SIZE = 500;
+const SHARD_PREFIX = 'presence-shard:';
+const OFFLINE_STATUS_TTL_S = 30 * 24 * 60 * 60;  // Last seen is kept this long after going offline
+
 export class PubSubService {
   public publisher: Redis;  // Public for channel handler
   private subscriber: Redis;
-  private subscriptions: Map<string, Set<Subscription>> = new Map();
-  private userSockets: Map<WebSocket, string[]> = new Map();
-
-  constructor(redisUrl: string) {
+  private subscribers: Map<string, Map<WebSocket, string>> = new Map();  // channel → socket → viewer
+  private socketChannels: Map<WebSocket, Set<string>> = new Map();
+  private shardRefs: Map<string, number> = new Map();  // shard → subscribed presence channels
+  private presenceShards: number;
+  private router: DeliveryRouter | null = null;
+
+  constructor(redisUrl: string, options: PubSubOptions = {}) {
+    this.presenceShards = Math.max(0, Math.floor(options.presenceShards ?? 0));
     this.publisher = new Redis(redisUrl);
     this.subscriber = new Redis(redisUrl);
 
@@ -46,58 +82,160 @@ export class PubSubService {
   }
 
   /**
-   * Subscribe a WebSocket to a user's presence channel
+   * Route deliveries through a filter instead of sending to every subscriber
    */
-  async subscribe(ws: WebSocket, targetUsername: string, viewerId: string): Promise<void> {
-    const channel = `presence:${targetUsername}`;
+  setDeliveryRouter(router: DeliveryRouter): void {
+    this.router = router;
+  }
 
-    // Track subscription
-    if (!this.subscriptions.has(channel)) {
-      this.subscriptions.set(channel, new Set());
-      await this.subscriber.subscribe(channel);
-    }
+  /**
+   * Check if any local socket is subscribed to a channel
+   */
+  isSubscribed(channel: string): boolean {
+    return this.subscribers.has(channel);
+  }
 
-    this.subscriptions.get(channel)?.add({ ws, userId: viewerId });
+  /**
+   * Number of local sockets subscribed to a channel
+   */
+  getSubscriberCount(channel: string): number {
+    return this.subscribers.get(channel)?.size ?? 0;
+  }
 
-    // Track which channels this socket is subscribed to
-    if (!this.userSockets.has(ws)) {
-      this.userSockets.set(ws, []);
-    }
-    this.userSockets.get(ws)?.push(channel);
+  /**
+   * Local subscriber count of every channel this node is subscribed to
+   */
+  getSubscriberCounts(): Map<string, number> {
+    return new Map([...this.subscribers].map(([channel, subs]) => [channel, subs.size]));
   }
 
   /**
-   * Subscribe to multiple users at once
+   * Subscribe a WebSocket to a user's presence channel
+   */
+  async subscribe(ws: WebSocket, targetUsername: string, viewerId: string): Promise<void> {
+    await this.subscribeToMany(ws, [targetUsername], viewerId);
+  }
+
+  /**
+   * Subscribe to multiple users at once, with one Redis round trip per batch
    */
   async subscribeToMany(ws: WebSocket, targetUsernames: string[], viewerId: string): Promise<void> {
-    for (const username of targetUsernames) {
-      await this.subscribe(ws, username, viewerId);
-    }
+    await this.addSubscriptions(ws, targetUsernames.map(username => `presence:${username}`), viewerId);
+  }
+
+  /**
+   * Unsubscribe a WebSocket from one user's presence channel
+   */
+  async unsubscribe(ws: WebSocket, targetUsername: string): Promise<void> {
+    await this.unsubscribeFromMany(ws, [targetUsername]);
+  }
+
+  /**
+   * Unsubscribe from multiple users at once
+   */
+  async unsubscribeFromMany(ws: WebSocket, targetUsernames: string[]): Promise<void> {
+    await this.removeSubscriptions(ws, targetUsernames.map(username => `presence:${username}`));
   }
 
   /**
    * Unsubscribe a WebSocket from all channels
    */
   async unsubscribeAll(ws: WebSocket): Promise<void> {
-    const channels = this.userSockets.get(ws) ?? [];
+    await this.removeSubscriptions(ws, [...this.socketChannels.get(ws) ?? []]);
+  }
+
+  /**
+   * Record local subscriptions, then subscribe Redis to channels that just gained
+   * their first one. Subscribing a socket to a channel it already has is a no-op.
+   */
+  private async addSubscriptions(ws: WebSocket, channels: string[], viewerId: string): Promise<void> {
+    if (channels.length === 0) return;
+
+    let tracked = this.socketChannels.get(ws);
+    if (!tracked) {
+      tracked = new Set();
+      this.socketChannels.set(ws, tracked);
+    }
+
+    const created: string[] = [];
+    for (const channel of channels) {
+      let subs = this.subscribers.get(channel);
+      if (!subs) {
+        subs = new Map();
+        this.subscribers.set(channel, subs);
+        created.push(channel);
+      }
+      subs.set(ws, viewerId);
+      tracked.add(channel);
+    }
+
+    const redisChannels: string[] = [];
+    for (const channel of created) {
+      const shard = this.shardOf(channel);
+      if (!shard) {
+        redisChannels.push(channel);
+        continue;
+      }
+      const refs = (this.shardRefs.get(shard) ?? 0) + 1;
+      this.shardRefs.set(shard, refs);
+      if (refs === 1) redisChannels.push(shard);
+    }
+    await this.sendBatched(redisChannels, batch => this.subscriber.subscribe(...batch));
+  }
 
+  /**
+   * Drop a socket's local subscriptions, then unsubscribe Redis from channels nobody here needs
+   */
+  private async removeSubscriptions(ws: WebSocket, channels: string[]): Promise<void> {
+    const tracked = this.socketChannels.get(ws);
+    if (!tracked) return;
+
+    const emptied: string[] = [];
     for (const channel of channels) {
-      const subs = this.subscriptions.get(channel);
-      if (subs) {
-        for (const sub of subs) {
-          if (sub.ws === ws) {
-            subs.delete(sub);
-          }
-        }
-        // If no more subscribers, unsubscribe from Redis
-        if (subs.size === 0) {
-          this.subscriptions.delete(channel);
-          await this.subscriber.unsubscribe(channel);
-        }
+      if (!tracked.delete(channel)) continue;
+      const subs = this.subscribers.get(channel);
+      subs?.delete(ws);
+      if (subs?.size === 0) {
+        this.subscribers.delete(channel);
+        emptied.push(channel);
       }
     }
+    if (tracked.size === 0) {
+      this.socketChannels.delete(ws);
+    }
 
-    this.userSockets.delete(ws);
+    const redisChannels: string[] = [];
+    for (const channel of emptied) {
+      const shard = this.shardOf(channel);
+      if (!shard) {
+        redisChannels.push(channel);
+        continue;
+      }
+      const refs = (this.shardRefs.get(shard) ?? 1) - 1;
+      if (refs > 0) {
+        this.shardRefs.set(shard, refs);
+      } else {
+        this.shardRefs.delete(shard);
+        redisChannels.push(shard);
+      }
+    }
+    await this.sendBatched(redisChannels, batch => this.subscriber.unsubscribe(...batch));
+  }
+
+  /**
+   * Queue every batch before awaiting any, so Redis sees (un)subscribes in the
+   * same order as the bookkeeping changes even when calls overlap
+   */
+  private async sendBatched(channels: string[], send: (batch: string[]) => Promise<unknown>): Promise<void> {
+    await Promise.all(batches(channels).map(send));
+  }
+
+  /**
+   * Shard channel carrying a presence channel, or null when not sharding it
+   */
+  private shardOf(channel: string): string | null {
+    if (!this.presenceShards || !channel.startsWith('presence:')) return null;
+    return `${SHARD_PREFIX}${hash(channel.slice('presence:'.length)) % this.presenceShards}`;
   }
 
   /**
@@ -105,7 +243,7 @@ export class PubSubService {
    */
   async publishDelta(username: string, delta: Omit<DeltaUpdateMessage, 't'>): Promise<void> {
     const message: DeltaUpdateMessage = { t: 'u', ...delta };
-    await this.publisher.publish(`presence:${username}`, JSON.stringify(message));
+    await this.publishPresence(username, message);
   }
 
   /**
@@ -113,7 +251,7 @@ export class PubSubService {
    */
   async publishOnline(username: string, data: Omit<UserOnlineMessage, 't'>): Promise<void> {
     const message: UserOnlineMessage = { t: 'o', ...data };
-    await this.publisher.publish(`presence:${username}`, JSON.stringify(message));
+    await this.publishPresence(username, message);
   }
 
   /**
@@ -121,18 +259,57 @@ export class PubSubService {
    */
   async publishOffline(username: string): Promise<void> {
     const message: UserOfflineMessage = { t: 'x', id: username, ts: Date.now() };
-    await this.publisher.publish(`presence:${username}`, JSON.stringify(message));
+    await this.publishPresence(username, message);
+  }
+
+  /**
+   * Publish a server-internal event on a user's presence channel
+   */
+  async publishPresenceEvent(username: string, event: object): Promise<void> {
+    await this.publishPresence(username, event);
+  }
+
+  /**
+   * Shard messages are prefixed with the username so receivers can filter
+   * without parsing the JSON
+   */
+  private async publishPresence(username: string, message: object): Promise<void> {
+    const channel = `presence:${username}`;
+    const shard = this.shardOf(channel);
+    if (shard) {
+      await this.publisher.publish(shard, `${username}\n${JSON.stringify(message)}`);
+    } else {
+      await this.publisher.publish(channel, JSON.stringify(message));
+    }
   }
 
   /**
    * Handle incoming Redis messages
    */
   private handleMessage(channel: string, message: string): void {
-    const subs = this.subscriptions.get(channel);
+    if (channel.startsWith(SHARD_PREFIX)) {
+      const split = message.indexOf('\n');
+      if (split === -1) return;
+      this.deliver(`presence:${message.slice(0, split)}`, message.slice(split + 1));
+      return;
+    }
+    this.deliver(channel, message);
+  }
+
+  /**
+   * Hand a message to the local subscribers of a channel, if any
+   */
+  private deliver(channel: string, message: string): void {
+    const subs = this.subscribers.get(channel);
     if (!subs) return;
 
+    if (this.router) {
+      this.router(channel, message, [...subs.keys()]);
+      return;
+    }
+
     // Send to all subscribed WebSockets
-    for (const { ws } of subs) {
+    for (const ws of subs.keys()) {
       if (ws.readyState === 1) { // WebSocket.OPEN
         ws.send(message);
       }
@@ -168,19 +345,138 @@ export class PubSubService {
   }
 
   /**
-   * Cache user status for quick retrieval
+   * Replace the channels a user belongs to, as seen by every node
    */
-  async cacheUserStatus(username: string, status: Record<string, unknown>): Promise<void> {
-    await this.publisher.hset(`status:${username}`, status as Record<string, string>);
-    await this.publisher.expire(`status:${username}`, 3600); // 1 hour TTL
+  async setMemberships(username: string, channelIds: string[]): Promise<void> {
+    const transaction = this.publisher.multi().del(`memberships:${username}`);
+    if (channelIds.length > 0) transaction.sadd(`memberships:${username}`, ...channelIds);
+    await transaction.exec();
+  }
+
+  async addMembership(username: string, channelId: string): Promise<void> {
+    await this.publisher.sadd(`memberships:${username}`, channelId);
   }
 
   /**
-   * Get cached user status
+   * Remove a channel from the memberships of each of the given users
    */
-  async getCachedStatus(username: string): Promise<Record<string, string> | null> {
-    const status = await this.publisher.hgetall(`status:${username}`);
-    return Object.keys(status).length > 0 ? status : null;
+  async removeMembership(usernames: string[], channelId: string): Promise<void> {
+    if (usernames.length === 0) return;
+    const pipeline = this.publisher.pipeline();
+    for (const username of usernames) {
+      pipeline.srem(`memberships:${username}`, channelId);
+    }
+    await pipeline.exec();
+  }
+
+  async getMemberships(username: string): Promise<string[]> {
+    return this.publisher.smembers(`memberships:${username}`);
+  }
+
+  async forgetMemberships(username: string): Promise<void> {
+    await this.publisher.del(`memberships:${username}`);
+  }
+
+  /**
+   * Mark a user as pending offline. Returns a marker that only the
+   * scheduling node can later claim.
+   */
+  async markPendingOffline(username: string): Promise<string> {
+    const marker = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+    await this.publisher.set(
+      `offline:${username}`,
+      marker,
+      'PX',
+      SESSION_RESUME_TTL_MS * 2
+    );
+    return marker;
+  }
+
+  /**
+   * Cancel a pending offline (any node, e.g. when the session resumes)
+   */
+  async cancelPendingOffline(username: string): Promise<void> {
+    await this.publisher.del(`offline:${username}`);
+  }
+
+  /**
+   * Atomically claim a pending offline if nobody cancelled it meanwhile
+   */
+  async claimPendingOffline(username: string, marker: string): Promise<boolean> {
+    const claimed = await this.publisher.eval(
+      `if redis.call('GET', KEYS[1]) == ARGV[1] then
+         return redis.call('DEL', KEYS[1])
+       end
+       return 0`,
+      1,
+      `offline:${username}`,
+      marker
+    );
+    return claimed === 1;
+  }
+
+  /**
+   * Update a user's status as last published, shared by every node.
+   * Online snapshots never expire; offline ones keep last seen for 30 days.
+   */
+  async updateStatus(username: string, update: StatusUpdate): Promise<void> {
+    const key = `status:${username}`;
+    const fields: Record<string, string> = {};
+    for (const field of ['s', 'act', 'p', 'l', 'a'] as const) {
+      const value = update[field];
+      if (value !== undefined) fields[field] = value;
+    }
+    if (update.ls !== undefined) fields['ls'] = String(update.ls);
+    if (update.cs) fields['cs'] = JSON.stringify(update.cs);
+
+    const transaction = this.publisher.multi();
+    if (Object.keys(fields).length > 0) transaction.hset(key, fields);
+    if (update.cs === null) transaction.hdel(key, 'cs');
+    if (update.s === 'Offline') {
+      transaction.expire(key, OFFLINE_STATUS_TTL_S);
+    } else if (update.s !== undefined) {
+      transaction.persist(key).hdel(key, 'ls');
+    }
+    await transaction.exec();
+  }
+
+  /**
+   * Stored status of each of the given users that has one, in one round trip.
+   * Expired custom statuses are left out.
+   */
+  async getStatuses(usernames: string[]): Promise<Map<string, CompactUser>> {
+    const statuses = new Map<string, CompactUser>();
+    if (usernames.length === 0) return statuses;
+
+    const pipeline = this.publisher.pipeline();
+    for (const username of usernames) {
+      pipeline.hgetall(`status:${username}`);
+    }
+    const results = await pipeline.exec();
+
+    const now = Date.now();
+    usernames.forEach((username, i) => {
+      const [error, hash] = results?.[i] ?? [];
+      if (error || !hash || typeof hash !== 'object') return;
+      const fields = hash as Record<string, string>;
+      if (!fields['s']) return;
+
+      const status: CompactUser = {
+        id: username,
+        a: fields['a'],
+        s: fields['s'],
+        act: fields['act'] ?? 'Idle',
+        p: fields['p'] ?? '',
+        l: fields['l'] ?? '',
+      };
+      if (fields['ls']) status.ls = Number(fields['ls']);
+      if (fields['cs']) {
+        const customStatus = JSON.parse(fields['cs']) as CustomStatus;
+        if (!customStatus.expiresAt || customStatus.expiresAt > now) status.cs = customStatus;
+      }
+      statuses.set(username, status);
+    });
+    return statuses;
   }
 
   /**
@@ -199,55 +495,40 @@ export class PubSubService {
    * Subscribe to a channel
    */
   async subscribeToChannel(ws: WebSocket, channelId: string, viewerId: string): Promise<void> {
-    const channel = `channel:${channelId}`;
-
-    if (!this.subscriptions.has(channel)) {
-      this.subscriptions.set(channel, new Set());
-      await this.subscriber.subscribe(channel);
-    }
-
-    this.subscriptions.get(channel)?.add({ ws, userId: viewerId });
-
-    if (!this.userSockets.has(ws)) {
-      this.userSockets.set(ws, []);
-    }
-    this.userSockets.get(ws)?.push(channel);
+    await this.addSubscriptions(ws, [`channel:${channelId}`], viewerId);
   }
 
   /**
    * Unsubscribe from a channel
    */
   async unsubscribeFromChannel(ws: WebSocket, channelId: string): Promise<void> {
-    const channel = `channel:${channelId}`;
-    const subs = this.subscriptions.get(channel);
-
-    if (subs) {
-      for (const sub of subs) {
-        if (sub.ws === ws) {
-          subs.delete(sub);
-        }
-      }
-      if (subs.size === 0) {
-        this.subscriptions.delete(channel);
-        await this.subscriber.unsubscribe(channel);
-      }
-    }
-
-    // Remove from socket tracking
-    const channels = this.userSockets.get(ws);
-    if (channels) {
-      const idx = channels.indexOf(channel);
-      if (idx >= 0) {
-        channels.splice(idx, 1);
-      }
-    }
+    await this.removeSubscriptions(ws, [`channel:${channelId}`]);
   }
 
   /**
    * Publish a message to a channel
    */
-  async publishToChannel(channelId: string, message: Record<string, unknown>): Promise<void> {
+  async publishToChannel(channelId: string, message: object): Promise<void> {
     await this.publisher.publish(`channel:${channelId}`, JSON.stringify(message));
   }
 }
 
+function batches(channels: string[]): string[][] {
+  const result: string[][] = [];
+  for (let i = 0; i < channels.length; i += SUBSCRIBE_BATCH_SIZE) {
+    result.push(channels.slice(i, i + SUBSCRIBE_BATCH_SIZE));
+  }
+  return result;
+}
+
+/**
+ * FNV-1a, so every node maps a username to the same shard
+ */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,156 @@
+/**
+ * Rate Limiter
+ * Redis-backed token buckets per connection and per user, with separate budgets per message type
+ */
+
+import crypto from 'crypto';
+import type Redis from 'ioredis';
+import type { WebSocket } from 'ws';
+import type { ClientMessage } from '../../shared/types';
+
+interface Bucket {
+  capacity: number;      // Burst size
+  refillPerSec: number;  // Sustained rate
+}
+
+interface Budget {
+  connection: Bucket;
+  user: Bucket;          // Shared by all of a user's windows, across nodes
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+  disconnect: boolean;   // Socket kept exceeding its budget
+}
+
+/** Budgets per message type; anything unlisted uses DEFAULT_BUDGET */
+const BUDGETS: Partial<Record<ClientMessage['t'], Budget>> = {
+  login: {
+    connection: { capacity: 3, refillPerSec: 0.2 },
+    user: { capacity: 10, refillPerSec: 0.5 },
+  },
+  statusUpdate: {
+    connection: { capacity: 10, refillPerSec: 2 },
+    user: { capacity: 30, refillPerSec: 5 },
+  },
+  // Each refresh costs several GitHub API calls
+  rf: {
+    connection: { capacity: 2, refillPerSec: 1 / 30 },
+    user: { capacity: 3, refillPerSec: 1 / 30 },
+  },
+  cm: {
+    connection: { capacity: 5, refillPerSec: 1 },
+    user: { capacity: 10, refillPerSec: 1 },
+  },
+  // Invite codes are short, so guessing must stay slow
+  jc: {
+    connection: { capacity: 5, refillPerSec: 1 / 12 },
+    user: { capacity: 10, refillPerSec: 1 / 12 },
+  },
+};
+
+const DEFAULT_BUDGET: Budget = {
+  connection: { capacity: 20, refillPerSec: 5 },
+  user: { capacity: 60, refillPerSec: 10 },
+};
+
+/** Rejections within STRIKE_WINDOW_MS before the socket is dropped */
+const MAX_STRIKES = 20;
+const STRIKE_WINDOW_MS = 60_000;
+
+/**
+ * Take one token from every bucket, or from none.
+ * KEYS: bucket keys. ARGV: capacity and refill-per-ms for each key, in order.
+ * Returns 0 when allowed, otherwise milliseconds until a token is available.
+ */
+const TAKE_TOKEN_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local levels = {}
+local retry = 0
+
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local rate = tonumber(ARGV[i * 2])
+  local bucket = redis.call('HMGET', key, 'tokens', 'ts')
+  local tokens = tonumber(bucket[1]) or capacity
+  local ts = tonumber(bucket[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+  levels[i] = tokens
+  if tokens < 1 then
+    retry = math.max(retry, math.ceil((1 - tokens) / rate))
+  end
+end
+
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local rate = tonumber(ARGV[i * 2])
+  local tokens = levels[i]
+  if retry == 0 then
+    tokens = tokens - 1
+  end
+  redis.call('HSET', key, 'tokens', tostring(tokens), 'ts', now)
+  redis.call('PEXPIRE', key, math.ceil(capacity / rate))
+end
+
+return retry
+`;
+
+export class RateLimiter {
+  private connectionIds: WeakMap<WebSocket, string> = new WeakMap();
+  private strikes: WeakMap<WebSocket, number[]> = new WeakMap();
+
+  constructor(private redis: Redis) { }
+
+  /**
+   * Spend one token for a message. Users are limited across all their
+   * connections; anonymous sockets only by connection.
+   */
+  async consume(ws: WebSocket, type: string, username?: string): Promise<RateLimitResult> {
+    const budget = BUDGETS[type as ClientMessage['t']] ?? DEFAULT_BUDGET;
+    const keys = [`ratelimit:${type}:conn:${this.connectionId(ws)}`];
+    const args = [budget.connection.capacity, budget.connection.refillPerSec / 1000];
+    if (username) {
+      keys.push(`ratelimit:${type}:user:${username}`);
+      args.push(budget.user.capacity, budget.user.refillPerSec / 1000);
+    }
+
+    let retryAfterMs: number;
+    try {
+      retryAfterMs = Number(await this.redis.eval(TAKE_TOKEN_SCRIPT, keys.length, ...keys, ...args));
+    } catch (error) {
+      // Fail open - a Redis hiccup should not lock everyone out
+      console.error('[RateLimiter] Redis error:', error);
+      return { allowed: true, retryAfterMs: 0, disconnect: false };
+    }
+
+    if (retryAfterMs === 0) {
+      return { allowed: true, retryAfterMs: 0, disconnect: false };
+    }
+    return { allowed: false, retryAfterMs, disconnect: this.recordStrike(ws) };
+  }
+
+  /**
+   * Stable id for a socket, unique across nodes
+   */
+  private connectionId(ws: WebSocket): string {
+    let id = this.connectionIds.get(ws);
+    if (!id) {
+      id = crypto.randomUUID();
+      this.connectionIds.set(ws, id);
+    }
+    return id;
+  }
+
+  /**
+   * Record a rejection; returns true once the socket has too many recent ones
+   */
+  private recordStrike(ws: WebSocket): boolean {
+    const now = Date.now();
+    const recent = (this.strikes.get(ws) ?? []).filter(ts => now - ts < STRIKE_WINDOW_MS);
+    recent.push(now);
+    this.strikes.set(ws, recent);
+    return recent.length >= MAX_STRIKES;
+  }
+}
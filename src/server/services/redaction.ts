@@ -0,0 +1,82 @@
+/**
+ * Presence Redaction
+ * Strips fields a user opted not to share before they leave the server
+ */
+
+import type { CompactUser, DbPreferences } from '../../shared/types';
+
+export type SharePreferences = Pick<DbPreferences, 'share_project' | 'share_language' | 'share_activity'>;
+
+/** Delta-shaped messages (u, cu): `a` is activity */
+interface DeltaFields {
+  t?: string;
+  id: string;
+  a?: string;
+  p?: string;
+  l?: string;
+}
+
+/** Any parsed pub/sub payload */
+export type WireMessage = { t: string } & Record<string, unknown>;
+
+/** Keys that identify a delta rather than carry presence data */
+const STRUCTURAL_KEYS = new Set(['t', 'id', 'channelId']);
+
+/**
+ * Mask a full user snapshot (sync, o, cs, cj). Hidden fields are blanked
+ * rather than removed so they overwrite anything the viewer had before.
+ */
+export function redactUser<T extends CompactUser>(user: T, prefs: SharePreferences | null): T {
+  if (!prefs) return user;
+
+  const redacted = { ...user };
+  if (!prefs.share_project) redacted.p = '';
+  if (!prefs.share_language) redacted.l = '';
+  if (!prefs.share_activity) redacted.act = 'Hidden';
+  return redacted;
+}
+
+/**
+ * Strip hidden fields from a delta (u, cu).
+ * Returns null when nothing shareable is left to send.
+ */
+export function redactDelta<T extends DeltaFields>(delta: T, prefs: SharePreferences | null): T | null {
+  if (!prefs) return delta;
+
+  const redacted = { ...delta };
+  if (!prefs.share_project) delete redacted.p;
+  if (!prefs.share_language) delete redacted.l;
+  if (!prefs.share_activity) delete redacted.a;
+
+  const hasData = Object.keys(redacted).some(key => !STRUCTURAL_KEYS.has(key));
+  return hasData ? redacted : null;
+}
+
+/**
+ * Redact any single-user server message (o, u, cu, cj).
+ * Other message types pass through unchanged.
+ */
+export function redactMessage(message: WireMessage, prefs: SharePreferences | null): WireMessage | null {
+  switch (message.t) {
+    case 'o':
+      return redactUser(message as WireMessage & CompactUser, prefs);
+    case 'u':
+    case 'cu':
+      return redactDelta(message as WireMessage & DeltaFields, prefs);
+    case 'cj':
+      return { ...message, member: redactUser(message['member'] as CompactUser, prefs) };
+    default:
+      return message;
+  }
+}
+
+/**
+ * Check whether any share preference differs between two states
+ */
+export function sharingChanged(previous: SharePreferences | null, current: SharePreferences | null): boolean {
+  const before = previous ?? { share_project: true, share_language: true, share_activity: true };
+  const after = current ?? { share_project: true, share_language: true, share_activity: true };
+  return before.share_project !== after.share_project ||
+    before.share_language !== after.share_language ||
+    before.share_activity !== after.share_activity;
+}
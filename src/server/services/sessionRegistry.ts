@@ -0,0 +1,180 @@
+/**
+ * Session Registry
+ * Redis record of which nodes hold each user's sockets, so presence works across server instances
+ */
+
+import crypto from 'crypto';
+import type Redis from 'ioredis';
+import type { CompactUser, StatusType, ActivityType } from '../../shared/types';
+import { STATUS_PRIORITY, ACTIVITY_PRIORITY } from '../../shared/types';
+
+const NODE_HEARTBEAT_INTERVAL_MS = 10_000;
+const NODE_TTL_MS = 30_000;  // A node silent this long is presumed dead
+
+const NODES_KEY = 'nodes';
+const nodeKey = (nodeId: string): string => `node:${nodeId}`;
+const nodeUsersKey = (nodeId: string): string => `node:${nodeId}:users`;
+const sessionsKey = (username: string): string => `sessions:${username}`;
+
+/** One node's share of a user's sessions */
+export interface NodeSessions {
+  sockets: number;
+  githubId?: number;
+  status: CompactUser;   // Aggregate across the node's windows
+}
+
+/** Called with users whose last sessions were on a node that died */
+export type OrphanedSessionsHandler = (sessions: NodeSessions[]) => Promise<void>;
+
+export class SessionRegistry {
+  readonly nodeId = crypto.randomUUID();
+  private local: Map<string, NodeSessions> = new Map();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(
+    private redis: Redis,
+    private onOrphaned: OrphanedSessionsHandler
+  ) { }
+
+  /**
+   * Announce this node and start heartbeats and dead-node cleanup
+   */
+  async start(): Promise<void> {
+    await this.beat();
+    this.heartbeat = setInterval(() => {
+      this.beat()
+        .then(() => this.sweep())
+        .catch(error => console.error('[Sessions] Heartbeat error:', error));
+    }, NODE_HEARTBEAT_INTERVAL_MS);
+    console.log(`[Sessions] Node ${this.nodeId} registered`);
+  }
+
+  /**
+   * Stop heartbeats. The node key is dropped so other nodes clean up
+   * after us straight away instead of waiting for it to expire.
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    await this.redis.del(nodeKey(this.nodeId));
+  }
+
+  /**
+   * Record this node's sessions for a user
+   */
+  async register(username: string, sessions: NodeSessions): Promise<void> {
+    this.local.set(username, sessions);
+    await this.redis.multi()
+      .hset(sessionsKey(username), this.nodeId, JSON.stringify(sessions))
+      .sadd(nodeUsersKey(this.nodeId), username)
+      .exec();
+  }
+
+  /**
+   * Remove this node's sessions for a user. Returns true if the user
+   * still has sessions on other nodes.
+   */
+  async unregister(username: string): Promise<boolean> {
+    this.local.delete(username);
+    const results = await this.redis.multi()
+      .hdel(sessionsKey(username), this.nodeId)
+      .srem(nodeUsersKey(this.nodeId), username)
+      .hlen(sessionsKey(username))
+      .exec();
+    return Number(results?.[2]?.[1] ?? 0) > 0;
+  }
+
+  /**
+   * Check if a user has sessions on any node
+   */
+  async hasSessions(username: string): Promise<boolean> {
+    return await this.redis.hlen(sessionsKey(username)) > 0;
+  }
+
+  /**
+   * Status of each online user among the given ones, aggregated across nodes
+   * the same way windows are: status first, then activity.
+   */
+  async getStatuses(usernames: string[]): Promise<Map<string, CompactUser>> {
+    const statuses = new Map<string, CompactUser>();
+    if (usernames.length === 0) return statuses;
+
+    const pipeline = this.redis.pipeline();
+    for (const username of usernames) {
+      pipeline.hvals(sessionsKey(username));
+    }
+    const results = await pipeline.exec();
+
+    usernames.forEach((username, i) => {
+      const [error, values] = results?.[i] ?? [];
+      if (error || !Array.isArray(values)) return;
+
+      let best: CompactUser | undefined;
+      for (const value of values as string[]) {
+        const { status } = JSON.parse(value) as NodeSessions;
+        if (!best || priority(status) > priority(best)) best = status;
+      }
+      if (best) statuses.set(username, best);
+    });
+    return statuses;
+  }
+
+  /**
+   * Refresh this node's heartbeat. If it had already expired, other nodes may
+   * have cleaned up our sessions, so write them back.
+   */
+  private async beat(): Promise<void> {
+    const alive = await this.redis.pexpire(nodeKey(this.nodeId), NODE_TTL_MS);
+    await this.redis.multi()
+      .set(nodeKey(this.nodeId), '1', 'PX', NODE_TTL_MS)
+      .sadd(NODES_KEY, this.nodeId)
+      .exec();
+
+    if (!alive && this.local.size > 0) {
+      console.warn(`[Sessions] Heartbeat lapsed, re-registering ${this.local.size} users`);
+      for (const [username, sessions] of this.local) {
+        await this.register(username, sessions);
+      }
+    }
+  }
+
+  /**
+   * Remove sessions held by nodes whose heartbeat expired. Runs after every heartbeat.
+   */
+  async sweep(): Promise<void> {
+    for (const nodeId of await this.redis.smembers(NODES_KEY)) {
+      if (nodeId === this.nodeId || await this.redis.exists(nodeKey(nodeId))) continue;
+
+      // Only one surviving node cleans up after each dead one
+      if (await this.redis.srem(NODES_KEY, nodeId) === 0) continue;
+
+      const orphaned: NodeSessions[] = [];
+      const usernames = await this.redis.smembers(nodeUsersKey(nodeId));
+      for (const username of usernames) {
+        const results = await this.redis.multi()
+          .hget(sessionsKey(username), nodeId)
+          .hdel(sessionsKey(username), nodeId)
+          .hlen(sessionsKey(username))
+          .exec();
+        const entry = results?.[0]?.[1];
+        if (typeof entry === 'string' && Number(results?.[2]?.[1]) === 0) {
+          orphaned.push(JSON.parse(entry) as NodeSessions);
+        }
+      }
+      await this.redis.del(nodeUsersKey(nodeId));
+
+      console.log(`[Sessions] Cleaned up dead node ${nodeId} (${usernames.length} users)`);
+      if (orphaned.length > 0) {
+        await this.onOrphaned(orphaned);
+      }
+    }
+  }
+}
+
+function priority(status: CompactUser): number {
+  const statusPriority = STATUS_PRIORITY[status.s as StatusType] ?? 0;
+  const activityPriority = ACTIVITY_PRIORITY[status.act as ActivityType] ?? 0;
+  return statusPriority * 10 + activityPriority;
+}
@@ -0,0 +1,261 @@
+/**
+ * Visibility Service
+ * Enforces per-user visibility preferences on every presence fan-out
+ */
+
+import type { WebSocket } from 'ws';
+import type { DatabaseService } from '../database';
+import type { ClientData } from './messageHandler';
+import type { CompactUser, DbPreferences, DbUser } from '../../shared/types';
+import { redactMessage, redactUser, sharingChanged, type WireMessage } from './redaction';
+
+export interface VisibilityProfile {
+  user: DbUser;
+  prefs: DbPreferences | null;
+}
+
+/**
+ * Internal pub/sub event: a user's visibility rules changed.
+ * Never forwarded to clients - each node turns it into o/x (or cu) per viewer.
+ */
+export interface VisibilityChangeEvent {
+  t: 'pv';
+  id: string;              // username
+  previous: VisibilityProfile | null;
+  current: VisibilityProfile;
+  status: CompactUser;     // current presence, for viewers who gain visibility
+}
+
+export class VisibilityService {
+  private profiles: Map<string, VisibilityProfile> = new Map();
+  private deliveryQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private db: DatabaseService,
+    private getClient: (ws: WebSocket) => ClientData | undefined
+  ) { }
+
+  /**
+   * Load profiles for users not yet cached
+   */
+  async load(usernames: string[]): Promise<void> {
+    const missing = [...new Set(usernames)].filter(u => !this.profiles.has(u));
+    if (missing.length === 0) return;
+
+    const users = await this.db.getUsersByUsernames(missing);
+    const prefs = await this.db.getPreferencesByIds(users.map(u => u.github_id));
+    const prefsById = new Map(prefs.map(p => [p.user_id, p]));
+
+    for (const user of users) {
+      this.remember(user, prefsById.get(user.github_id) ?? null);
+    }
+  }
+
+  /**
+   * Reload a user's profile from the database, bypassing the cache
+   */
+  async refresh(githubId: number): Promise<VisibilityProfile | null> {
+    const user = await this.db.getUserById(githubId);
+    if (!user) return null;
+
+    const prefs = await this.db.getPreferences(githubId);
+    this.remember(user, prefs);
+    return { user, prefs };
+  }
+
+  /**
+   * Cache a user's profile
+   */
+  remember(user: DbUser, prefs: DbPreferences | null): void {
+    this.profiles.set(user.username, { user, prefs });
+  }
+
+  /**
+   * Get a cached profile
+   */
+  getProfile(username: string): VisibilityProfile | undefined {
+    return this.profiles.get(username);
+  }
+
+  /**
+   * Drop cached profiles that are no longer needed on this node
+   */
+  prune(isNeeded: (username: string) => boolean): void {
+    for (const username of this.profiles.keys()) {
+      if (!isNeeded(username)) {
+        this.profiles.delete(username);
+      }
+    }
+  }
+
+  /**
+   * Check if a connected viewer may see a target user
+   */
+  canSee(viewer: ClientData, targetUsername: string): boolean {
+    if (viewer.username === targetUsername) return true;
+    return this.evaluate(viewer, this.profiles.get(targetUsername));
+  }
+
+  /**
+   * Redact a user snapshot to what a viewer is allowed to see
+   */
+  redactFor(viewer: ClientData, user: CompactUser): CompactUser {
+    if (viewer.username === user.id) return user;
+    return redactUser(user, this.profiles.get(user.id)?.prefs ?? null);
+  }
+
+  /**
+   * Build the internal event announcing a visibility change
+   */
+  static changeEvent(
+    previous: VisibilityProfile | null,
+    current: VisibilityProfile,
+    status: CompactUser
+  ): VisibilityChangeEvent {
+    return { t: 'pv', id: current.user.username, previous, current, status };
+  }
+
+  /**
+   * Route a pub/sub message to local subscribers.
+   * Deliveries are serialized so profile loads never reorder messages.
+   */
+  route(channel: string, message: string, sockets: WebSocket[]): void {
+    this.deliveryQueue = this.deliveryQueue
+      .then(() => this.deliver(channel, message, sockets))
+      .catch((error) => {
+        console.error('[Visibility] Delivery error:', error);
+      });
+  }
+
+  private async deliver(channel: string, message: string, sockets: WebSocket[]): Promise<void> {
+    if (channel.startsWith('presence:')) {
+      await this.deliverPresence(channel.slice('presence:'.length), message, sockets);
+    } else if (channel.startsWith('channel:')) {
+      await this.deliverChannel(message, sockets);
+    } else {
+      for (const ws of sockets) {
+        this.send(ws, message);
+      }
+    }
+  }
+
+  /**
+   * Deliver a presence:{username} message (o/u/x/pv)
+   */
+  private async deliverPresence(target: string, message: string, sockets: WebSocket[]): Promise<void> {
+    const event = JSON.parse(message) as WireMessage;
+
+    if (event.t === 'pv') {
+      const change = event as unknown as VisibilityChangeEvent;
+      this.applyChange(change, sockets, (ws, kind) => {
+        const user = redactUser(change.status, change.current.prefs);
+        const { id, s, act, p, l } = user;
+        if (kind === 'lost') {
+          this.send(ws, JSON.stringify({ t: 'x', id, ts: Date.now() }));
+        } else if (kind === 'gained') {
+          // Same shape as a regular online event, custom status included
+          this.send(ws, JSON.stringify({ t: 'o', ...user }));
+        } else {
+          this.send(ws, JSON.stringify({ t: 'u', id, s, a: act, p, l }));
+        }
+      });
+      return;
+    }
+
+    await this.load([target]);
+    this.fanOut(target, message, event, sockets);
+  }
+
+  /**
+   * Deliver a channel:{id} message, hiding members from viewers who may not see them
+   */
+  private async deliverChannel(message: string, sockets: WebSocket[]): Promise<void> {
+    const event = JSON.parse(message) as WireMessage;
+
+    if (event.t === 'pv') {
+      const change = event as unknown as VisibilityChangeEvent & { channelId: string };
+      this.applyChange(change, sockets, (ws, kind) => {
+        const { id, s, act, p, l } = redactUser(change.status, change.current.prefs);
+        this.send(ws, JSON.stringify(kind === 'lost'
+          ? { t: 'cu', channelId: change.channelId, id, s: 'Offline', a: 'Idle', p: '', l: '' }
+          : { t: 'cu', channelId: change.channelId, id, s, a: act, p, l }));
+      });
+      return;
+    }
+
+    const target = event.t === 'cj'
+      ? (event['member'] as CompactUser | undefined)?.id
+      : event.t === 'cu' ? event['id'] as string : undefined;
+    if (!target) {
+      for (const ws of sockets) {
+        this.send(ws, message);
+      }
+      return;
+    }
+
+    await this.load([target]);
+    this.fanOut(target, message, event, sockets);
+  }
+
+  /**
+   * Send a single-user event to each viewer allowed to see the target,
+   * redacted to what the target shares
+   */
+  private fanOut(target: string, raw: string, event: WireMessage, sockets: WebSocket[]): void {
+    const redacted = redactMessage(event, this.profiles.get(target)?.prefs ?? null);
+    const payload = redacted ? JSON.stringify(redacted) : null;
+
+    for (const ws of sockets) {
+      const viewer = this.getClient(ws);
+      if (!viewer) continue;
+
+      if (viewer.username === target) {
+        this.send(ws, raw);
+      } else if (this.canSee(viewer, target)) {
+        if (payload) this.send(ws, payload);
+      } else if (event.t === 'cj') {
+        // Channel members still appear in the list, just never online
+        this.send(ws, JSON.stringify({ ...event, member: { id: target, s: 'Offline', act: 'Idle' } }));
+      }
+    }
+  }
+
+  /**
+   * Swap in a changed profile and report viewers whose view of the user changed.
+   * The event carries both profiles so every node diffs the same states.
+   */
+  private applyChange(
+    change: VisibilityChangeEvent,
+    sockets: WebSocket[],
+    notify: (ws: WebSocket, kind: 'gained' | 'lost' | 'updated') => void
+  ): void {
+    this.remember(change.current.user, change.current.prefs);
+    const resend = sharingChanged(change.previous?.prefs ?? null, change.current.prefs);
+
+    for (const ws of sockets) {
+      const viewer = this.getClient(ws);
+      if (!viewer || viewer.username === change.id) continue;
+
+      const wasVisible = this.evaluate(viewer, change.previous ?? undefined);
+      const visible = this.evaluate(viewer, change.current);
+      if (visible && !wasVisible) {
+        notify(ws, 'gained');
+      } else if (!visible && wasVisible) {
+        notify(ws, 'lost');
+      } else if (visible && resend) {
+        notify(ws, 'updated');
+      }
+    }
+  }
+
+  private evaluate(viewer: ClientData, profile: VisibilityProfile | undefined): boolean {
+    if (!profile) return false;
+    return this.db.canUserSee(viewer.githubId ?? null, profile.user.github_id, profile.prefs, profile.user);
+  }
+
+  private send(ws: WebSocket, message: string): void {
+    if (ws.readyState === 1) { // WebSocket.OPEN
+      ws.send(message);
+    }
+  }
+}
@@ -54,6 +54,7 @@ export type MessageType =
   | 'loginError'   // Login failed
   | 'statusUpdate' // Client status update
   | 'prefsUpdate'  // Preferences update
+  | 'rf'           // Refresh GitHub relationships
   | 'error'        // General error
   // Channel messages (Phase 2)
   | 'cc'           // Create channel
@@ -66,9 +67,34 @@ export type MessageType =
   | 'cj'           // Member joined channel
   | 'cl'           // Member left channel
   | 'cm'           // Channel message
+  | 'chl'          // Channel list (memberships at login)
+  | 'ch'           // Channel history request
+  | 'ce'           // Edit chat message
+  | 'cx'           // Delete chat message
+  | 'rx'           // React to chat message
+  | 'chOk'         // Channel history page
+  | 'ck'           // Kick member
+  | 'cr'           // Member role change
+  | 'ct'           // Transfer ownership
+  | 'cn'           // Rename channel
+  | 'cd'           // Delete channel
+  | 'ic'           // Create invite
+  | 'icOk'         // Invite created
+  | 'il'           // List invites
+  | 'ilOk'         // Invite list
+  | 'ir'           // Revoke invite
+  | 'irOk'         // Invite revoked
   // Rich Status (Phase 2)
   | 'ss'           // Set custom status
-  | 'clr';         // Clear custom status
+  | 'clr'          // Clear custom status
+  // Close Friends
+  | 'cfa'          // Add close friend
+  | 'cfr'          // Remove close friend
+  | 'cfl'          // List close friends
+  | 'cfList'       // Close friends list
+  // Guest identity
+  | 'gr'           // Release guest username
+  | 'grOk';        // Guest username released
 
 /** Base message interface */
 export interface BaseMessage {
@@ -81,6 +107,7 @@ export interface LoginMessage extends BaseMessage {
   username: string;
   token?: string;        // GitHub token
   resumeToken?: string;  // Session resume token
+  guestToken?: string;   // Signed guest credential for this username
 }
 
 /** Server → Client: Login Success */
@@ -90,6 +117,7 @@ export interface LoginSuccessMessage extends BaseMessage {
   githubId?: number;
   followers?: number[];
   following?: number[];
+  guestToken?: string;   // Issued when a guest claims a new username
 }
 
 /** Server → Client: Login Error */
@@ -113,6 +141,7 @@ export interface CompactUser {
   p?: string;            // project
   l?: string;            // language
   ls?: number;           // lastSeen
+  cs?: CustomStatus;     // custom status
 }
 
 /** Server → Client: Delta Update */
@@ -135,6 +164,7 @@ export interface UserOnlineMessage extends BaseMessage {
   act: string;           // activity
   p?: string;            // project
   l?: string;            // language
+  cs?: CustomStatus;     // custom status
 }
 
 /** Server → Client: User Offline */
@@ -159,6 +189,11 @@ export interface PrefsUpdateMessage extends BaseMessage {
   prefs: Partial<UserPreferences>;
 }
 
+/** Client → Server: Re-fetch followers/following from GitHub */
+export interface RefreshRelationshipsMessage extends BaseMessage {
+  t: 'rf';
+}
+
 /** Heartbeat (bidirectional) */
 export interface HeartbeatMessage extends BaseMessage {
   t: 'hb';
@@ -174,7 +209,9 @@ export interface TokenMessage extends BaseMessage {
 export interface ErrorMessage extends BaseMessage {
   t: 'error';
   error: string;
-  code?: string;
+  code?: string;         // Machine-readable reason (ValidationErrorCode, 'rate_limited' or 'invite_*')
+  field?: string;        // Offending field, for validation errors
+  retryAfter?: number;   // ms until the request may be retried, for 'rate_limited'
 }
 
 // ============================================================================
@@ -206,6 +243,7 @@ export interface JoinSuccessMessage extends BaseMessage {
   t: 'jcOk';
   channelId: string;
   name: string;
+  remaining?: number;    // free member slots after joining
 }
 
 /** Client → Server: Leave Channel */
@@ -220,6 +258,9 @@ export interface ChannelSyncMessage extends BaseMessage {
   channelId: string;
   name: string;
   members: CompactUser[];
+  roles?: Record<string, ChannelRole>;  // username → role
+  capacity?: number;     // max members
+  remaining?: number;    // free member slots
 }
 
 /** Server → Client: Channel Member Update */
@@ -227,10 +268,11 @@ export interface ChannelUpdateMessage extends BaseMessage {
   t: 'cu';
   channelId: string;
   id: string;            // username
-  s?: string;            // status
-  a?: string;            // activity
-  p?: string;            // project
-  l?: string;            // language
+  s?: string;            // status (if changed)
+  a?: string;            // activity (if changed)
+  p?: string;            // project (if changed)
+  l?: string;            // language (if changed)
+  cs?: CustomStatus | null;  // custom status (if changed, null = cleared)
 }
 
 /** Server → Client: Member Joined */
@@ -251,9 +293,171 @@ export interface ChannelLeaveMessage extends BaseMessage {
 export interface ChannelChatMessage extends BaseMessage {
   t: 'cm';
   channelId: string;
+  mid?: string;          // message id (set by server)
   id?: string;           // sender (set by server)
   content: string;
   ts?: number;           // timestamp (set by server)
+  replyTo?: string;      // thread root message id
+  attachments?: ChatAttachment[];
+  mentions?: string[];   // mentioned members (set by server)
+}
+
+/** Code shared into chat */
+export interface ChatAttachment {
+  kind: 'code';
+  code: string;
+  languageId: string;    // VS Code language id
+  path: string;          // relative to the sender's workspace
+  startLine: number;     // 1-based, inclusive
+  endLine: number;
+}
+
+/** Stored channel chat message */
+export interface ChannelHistoryEntry {
+  mid: string;           // message id, increasing over time
+  id: string;            // sender
+  content: string;       // empty once deleted
+  ts: number;
+  replyTo?: string;      // thread root message id
+  attachments?: ChatAttachment[];
+  mentions?: string[];
+  editedAt?: number;
+  deleted?: boolean;
+  reactions?: Record<string, string[]>;  // emoji → usernames
+}
+
+/** Bidirectional: Edit a chat message (author request / broadcast to the channel) */
+export interface EditChatMessage extends BaseMessage {
+  t: 'ce';
+  channelId: string;
+  mid: string;
+  content: string;
+  editedAt?: number;     // set by server
+}
+
+/** Bidirectional: Delete a chat message (author or admin request / broadcast) */
+export interface DeleteChatMessage extends BaseMessage {
+  t: 'cx';
+  channelId: string;
+  mid: string;
+}
+
+/** Bidirectional: Add or remove an emoji reaction */
+export interface ReactionMessage extends BaseMessage {
+  t: 'rx';
+  channelId: string;
+  mid: string;
+  emoji: string;
+  add: boolean;          // false = remove
+  id?: string;           // reacting user (set by server)
+}
+
+/** Client → Server: Fetch chat history, newest first from `before` */
+export interface ChannelHistoryRequestMessage extends BaseMessage {
+  t: 'ch';
+  channelId: string;
+  before?: string;       // message id; omit for the latest messages
+  limit?: number;        // page size (default CHANNEL_HISTORY_PAGE_SIZE)
+}
+
+/** Server → Client: Page of chat history, oldest first */
+export interface ChannelHistoryMessage extends BaseMessage {
+  t: 'chOk';
+  channelId: string;
+  messages: ChannelHistoryEntry[];
+  hasMore: boolean;      // older messages exist before this page
+}
+
+/** Server → Client: Channels the user belongs to (sent on login/resume, before each cs) */
+export interface ChannelListMessage extends BaseMessage {
+  t: 'chl';
+  channelIds: string[];
+}
+
+/** Bidirectional: Remove a member (admin request / broadcast to the channel) */
+export interface KickMemberMessage extends BaseMessage {
+  t: 'ck';
+  channelId: string;
+  id: string;            // username being removed
+}
+
+/** Bidirectional: Promote/demote a member (owner request / broadcast to the channel) */
+export interface ChannelRoleMessage extends BaseMessage {
+  t: 'cr';
+  channelId: string;
+  id: string;            // username
+  role: ChannelRole;     // clients may only request 'admin' or 'member'
+}
+
+/** Client → Server: Hand ownership to another member (announced as cr) */
+export interface TransferOwnershipMessage extends BaseMessage {
+  t: 'ct';
+  channelId: string;
+  id: string;            // new owner's username
+}
+
+/** Bidirectional: Rename channel */
+export interface RenameChannelMessage extends BaseMessage {
+  t: 'cn';
+  channelId: string;
+  name: string;
+}
+
+/** Bidirectional: Delete channel (owner request / broadcast to the channel) */
+export interface DeleteChannelMessage extends BaseMessage {
+  t: 'cd';
+  channelId: string;
+}
+
+/** Channel invite as shown to admins */
+export interface ChannelInvite {
+  code: string;
+  createdBy?: string;    // username, absent if the creator's account is gone
+  expiresAt: number;
+  maxUses?: number;      // absent = unlimited
+  uses: number;
+}
+
+/** Client → Server: Create Invite (admins) */
+export interface CreateInviteMessage extends BaseMessage {
+  t: 'ic';
+  channelId: string;
+  expiresIn?: number;    // Duration in ms (1h, 1d or 7d, default 7d)
+  maxUses?: number;      // 1 = single-use, undefined = unlimited
+}
+
+/** Server → Client: Invite Created */
+export interface InviteCreatedMessage extends BaseMessage {
+  t: 'icOk';
+  channelId: string;
+  invite: ChannelInvite;
+}
+
+/** Client → Server: List a channel's usable invites (admins) */
+export interface ListInvitesMessage extends BaseMessage {
+  t: 'il';
+  channelId: string;
+}
+
+/** Server → Client: Invite List */
+export interface InviteListMessage extends BaseMessage {
+  t: 'ilOk';
+  channelId: string;
+  invites: ChannelInvite[];
+}
+
+/** Client → Server: Revoke Invite (admins) */
+export interface RevokeInviteMessage extends BaseMessage {
+  t: 'ir';
+  channelId: string;
+  code: string;
+}
+
+/** Server → Client: Invite Revoked */
+export interface InviteRevokedMessage extends BaseMessage {
+  t: 'irOk';
+  channelId: string;
+  code: string;
 }
 
 // ============================================================================
@@ -273,6 +477,49 @@ export interface ClearStatusMessage extends BaseMessage {
   t: 'clr';
 }
 
+// ============================================================================
+// Close Friends Messages
+// ============================================================================
+
+/** Client → Server: Add Close Friend */
+export interface AddCloseFriendMessage extends BaseMessage {
+  t: 'cfa';
+  username: string;
+}
+
+/** Client → Server: Remove Close Friend */
+export interface RemoveCloseFriendMessage extends BaseMessage {
+  t: 'cfr';
+  username: string;
+}
+
+/** Client → Server: List Close Friends */
+export interface ListCloseFriendsMessage extends BaseMessage {
+  t: 'cfl';
+}
+
+/** Server → Client: Close Friends List (reply to cfa/cfr/cfl) */
+export interface CloseFriendsListMessage extends BaseMessage {
+  t: 'cfList';
+  friends: string[];     // usernames
+}
+
+// ============================================================================
+// Guest Identity
+// ============================================================================
+
+/** Client → Server: Give up a claimed guest username */
+export interface ReleaseGuestNameMessage extends BaseMessage {
+  t: 'gr';
+  guestToken: string;    // Credential proving ownership
+}
+
+/** Server → Client: Guest username released */
+export interface GuestNameReleasedMessage extends BaseMessage {
+  t: 'grOk';
+  username: string;
+}
+
 // ============================================================================
 // Union Types
 // ============================================================================
@@ -281,15 +528,34 @@ export type ClientMessage =
   | LoginMessage
   | StatusUpdateMessage
   | PrefsUpdateMessage
+  | RefreshRelationshipsMessage
   | HeartbeatMessage
   // Channel messages
   | CreateChannelMessage
   | JoinChannelMessage
   | LeaveChannelMessage
   | ChannelChatMessage
+  | ChannelHistoryRequestMessage
+  | EditChatMessage
+  | DeleteChatMessage
+  | ReactionMessage
+  | KickMemberMessage
+  | ChannelRoleMessage
+  | TransferOwnershipMessage
+  | RenameChannelMessage
+  | DeleteChannelMessage
+  | CreateInviteMessage
+  | ListInvitesMessage
+  | RevokeInviteMessage
   // Rich Status
   | SetStatusMessage
-  | ClearStatusMessage;
+  | ClearStatusMessage
+  // Close Friends
+  | AddCloseFriendMessage
+  | RemoveCloseFriendMessage
+  | ListCloseFriendsMessage
+  // Guest Identity
+  | ReleaseGuestNameMessage;
 
 export type ServerMessage =
   | LoginSuccessMessage
@@ -308,7 +574,23 @@ export type ServerMessage =
   | ChannelUpdateMessage
   | ChannelJoinMessage
   | ChannelLeaveMessage
-  | ChannelChatMessage;
+  | ChannelChatMessage
+  | ChannelListMessage
+  | ChannelHistoryMessage
+  | EditChatMessage
+  | DeleteChatMessage
+  | ReactionMessage
+  | KickMemberMessage
+  | ChannelRoleMessage
+  | RenameChannelMessage
+  | DeleteChannelMessage
+  | InviteCreatedMessage
+  | InviteListMessage
+  | InviteRevokedMessage
+  // Close Friends
+  | CloseFriendsListMessage
+  // Guest Identity
+  | GuestNameReleasedMessage;
 
 // ============================================================================
 // Database Types
@@ -337,7 +619,39 @@ export interface DbChannel {
   id: string;
   name: string;
   owner_id: number;
-  invite_code: string;
+  capacity: number;      // max members
+  created_at: number;
+}
+
+export interface DbChannelMessage {
+  id: string;            // BIGSERIAL, returned as a string by pg
+  channel_id: string;
+  sender_id: number | null;
+  sender_username: string;
+  content: string;
+  reply_to: string | null;
+  attachments: ChatAttachment[] | null;
+  mentions: string[] | null;
+  edited_at: number | null;
+  deleted: boolean;
+  created_at: number;
+}
+
+export interface DbChannelReaction {
+  message_id: string;
+  username: string;
+  emoji: string;
+}
+
+export interface DbChannelInvite {
+  code: string;
+  channel_id: string;
+  created_by: number | null;
+  created_by_username?: string | null;  // Joined from users when listing
+  expires_at: number;
+  max_uses: number | null;
+  uses: number;
+  revoked: boolean;
   created_at: number;
 }
 
@@ -349,10 +663,26 @@ export interface DbChannelMember {
   joined_at: number;
 }
 
+/** Effective role in a channel; the owner is channels.owner_id */
+export type ChannelRole = 'owner' | 'admin' | 'member';
+
 // Channel constants
-export const MAX_CHANNEL_MEMBERS = 50;
+export const DEFAULT_CHANNEL_CAPACITY = 50;         // members, unless server config raises it
+export const MAX_CHANNEL_CAPACITY = 1000;          // ceiling for any channel (prevents O(N²) fan-out)
 export const INVITE_CODE_LENGTH = 6;
-export const INVITE_CODE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const INVITE_CODE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days (default and maximum)
+export const INVITE_EXPIRY_DURATIONS_MS: readonly number[] = [
+  60 * 60 * 1000,           // 1 hour
+  24 * 60 * 60 * 1000,      // 1 day
+  INVITE_CODE_EXPIRY_MS,
+];
+export const INVITE_MAX_USES_LIMIT = 100;
+export const CHANNEL_HISTORY_PAGE_SIZE = 50;
+export const CHANNEL_HISTORY_MAX_PAGE_SIZE = 100;
+export const MAX_REACTIONS_PER_MESSAGE = 20;       // distinct emoji
+export const MAX_ATTACHMENTS_PER_MESSAGE = 3;
+export const MAX_ATTACHMENT_BYTES = 16 * 1024;      // total code per message
+export const CHANNEL_MESSAGE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
 
 // ============================================================================
 // Constants
@@ -373,6 +703,27 @@ export const STATUS_PRIORITY: Record<StatusType, number> = {
   Offline: 0,
 };
 
+export const VISIBILITY_MODES: readonly VisibilityMode[] = [
+  'everyone',
+  'followers',
+  'following',
+  'close-friends',
+  'invisible',
+];
+
+// Validation limits
+export const USERNAME_MAX_LENGTH = 39;              // GitHub's limit
+export const CHANNEL_NAME_MIN_LENGTH = 3;
+export const CHANNEL_NAME_MAX_LENGTH = 30;
+export const STATUS_TEXT_MAX_LENGTH = 128;
+export const CHANNEL_MESSAGE_MAX_LENGTH = 2000;
+export const CUSTOM_STATUS_DURATIONS_MS: readonly number[] = [
+  1 * 60 * 60 * 1000,   // 1 hour
+  4 * 60 * 60 * 1000,   // 4 hours
+  8 * 60 * 60 * 1000,   // 8 hours
+  24 * 60 * 60 * 1000,  // 24 hours
+];
+
 export const AWAY_TIMEOUT_MS = 5 * 60 * 1000;        // 5 minutes
 export const SESSION_RESUME_TTL_MS = 60 * 1000;     // 60 seconds
 export const HEARTBEAT_INTERVAL_MS = 30 * 1000;     // 30 seconds
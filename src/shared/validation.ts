@@ -0,0 +1,487 @@
+/**
+ * VSCord Message Validation
+ * Runtime schema checks for every protocol message, shared by client and server
+ */
+
+import type { ClientMessage, ServerMessage } from './types';
+import {
+  ACTIVITY_PRIORITY,
+  STATUS_PRIORITY,
+  VISIBILITY_MODES,
+  USERNAME_MAX_LENGTH,
+  CHANNEL_NAME_MIN_LENGTH,
+  CHANNEL_NAME_MAX_LENGTH,
+  STATUS_TEXT_MAX_LENGTH,
+  CHANNEL_MESSAGE_MAX_LENGTH,
+  CUSTOM_STATUS_DURATIONS_MS,
+  INVITE_CODE_LENGTH,
+  INVITE_EXPIRY_DURATIONS_MS,
+  INVITE_MAX_USES_LIMIT,
+  CHANNEL_HISTORY_MAX_PAGE_SIZE,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_ATTACHMENT_BYTES,
+  MAX_CHANNEL_CAPACITY,
+} from './types';
+
+// ============================================================================
+// Result Types
+// ============================================================================
+
+/** Machine-readable reason a message was rejected */
+export type ValidationErrorCode =
+  | 'invalid_json'       // Not parseable
+  | 'invalid_message'    // Not an object, or no string `t`
+  | 'unknown_type'       // `t` is not a known message type
+  | 'missing_field'      // Required field absent
+  | 'invalid_type'       // Field has the wrong JS type
+  | 'invalid_length'     // String/array length out of bounds
+  | 'invalid_value';     // Not one of the allowed values
+
+export interface ValidationError {
+  code: ValidationErrorCode;
+  error: string;         // Human-readable description
+  field?: string;        // Dotted path to the offending field
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: ValidationError };
+
+// ============================================================================
+// Schema Definition
+// ============================================================================
+
+interface FieldRule {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  optional?: boolean;
+  nullable?: boolean;
+  min?: number;                      // Min string/array length
+  max?: number;                      // Max string/array length
+  oneOf?: readonly unknown[];        // Allowed values
+  check?: (value: unknown) => string | null;  // Extra check, returns error text
+  fields?: Schema;                   // For objects
+  items?: FieldRule;                 // For arrays
+}
+
+type Schema = Record<string, FieldRule>;
+
+const STATUS_TYPES = Object.keys(STATUS_PRIORITY);
+const ACTIVITY_TYPES = Object.keys(ACTIVITY_PRIORITY);
+
+const str = (min = 0, max = Infinity, optional = false): FieldRule => ({ type: 'string', min, max, optional });
+const opt = (rule: FieldRule): FieldRule => ({ ...rule, optional: true });
+const wholeNumber = (min: number, max: number): FieldRule => ({
+  type: 'number',
+  check: (v) => Number.isInteger(v) && (v as number) >= min && (v as number) <= max
+    ? null
+    : `must be a whole number from ${min} to ${max}`,
+});
+
+const CHANNEL_ROLES = ['owner', 'admin', 'member'];
+
+const username: FieldRule = str(1, USERNAME_MAX_LENGTH);
+const channelId: FieldRule = str(1, 64);
+
+/** Channel names are checked after trimming */
+const channelName: FieldRule = {
+  type: 'string',
+  check: (v) => {
+    const length = (v as string).trim().length;
+    return length < CHANNEL_NAME_MIN_LENGTH || length > CHANNEL_NAME_MAX_LENGTH
+      ? `must be ${CHANNEL_NAME_MIN_LENGTH}-${CHANNEL_NAME_MAX_LENGTH} characters`
+      : null;
+  },
+};
+
+/**
+ * Check that a string is exactly one emoji (one grapheme cluster)
+ */
+function singleEmoji(value: unknown): string | null {
+  const text = value as string;
+  const graphemes = [...new Intl.Segmenter().segment(text)];
+  if (graphemes.length !== 1 || !/\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(text)) {
+    return 'must be a single emoji';
+  }
+  return null;
+}
+
+/** Message ids are BIGSERIAL values sent as decimal strings */
+const MAX_MESSAGE_ID = 9223372036854775807n;  // Postgres BIGINT maximum
+const messageId: FieldRule = {
+  type: 'string',
+  check: (v) => /^\d{1,19}$/.test(v as string) && BigInt(v as string) <= MAX_MESSAGE_ID
+    ? null
+    : 'must be a message id',
+};
+
+const attachment: FieldRule = {
+  type: 'object',
+  fields: {
+    kind: { type: 'string', oneOf: ['code'] },
+    code: str(1, MAX_ATTACHMENT_BYTES),  // bytes are checked by the server
+    languageId: str(1, 64),
+    path: str(1, 512),
+    startLine: wholeNumber(1, Number.MAX_SAFE_INTEGER),
+    endLine: wholeNumber(1, Number.MAX_SAFE_INTEGER),
+  },
+};
+
+const attachments: FieldRule = opt({
+  type: 'array',
+  max: MAX_ATTACHMENTS_PER_MESSAGE,
+  items: attachment,
+});
+
+const historyEntry: FieldRule = {
+  type: 'object',
+  fields: {
+    mid: messageId,
+    id: username,
+    content: str(),
+    ts: { type: 'number' },
+    replyTo: opt(messageId),
+    attachments,
+    mentions: opt({ type: 'array', items: username }),
+    editedAt: opt({ type: 'number' }),
+    deleted: opt({ type: 'boolean' }),
+    reactions: opt({ type: 'object' }),
+  },
+};
+
+const inviteCode: FieldRule = str(INVITE_CODE_LENGTH, INVITE_CODE_LENGTH);
+
+const invite: FieldRule = {
+  type: 'object',
+  fields: {
+    code: inviteCode,
+    createdBy: str(0, Infinity, true),
+    expiresAt: { type: 'number' },
+    maxUses: opt({ type: 'number' }),
+    uses: { type: 'number' },
+  },
+};
+
+const customStatus: FieldRule = {
+  type: 'object',
+  optional: true,
+  nullable: true,
+  fields: {
+    text: str(0, STATUS_TEXT_MAX_LENGTH),
+    emoji: str(0, Infinity, true),
+    expiresAt: opt({ type: 'number' }),
+  },
+};
+
+const compactUser: FieldRule = {
+  type: 'object',
+  fields: {
+    id: username,
+    a: str(0, Infinity, true),
+    s: str(),
+    act: str(),
+    p: str(0, Infinity, true),
+    l: str(0, Infinity, true),
+    ls: opt({ type: 'number' }),
+    cs: customStatus,
+  },
+};
+
+const CLIENT_SCHEMAS: Record<ClientMessage['t'], Schema> = {
+  login: {
+    username,
+    token: str(1, 1024, true),
+    resumeToken: str(1, 128, true),
+    guestToken: str(1, 512, true),
+  },
+  statusUpdate: {
+    s: opt({ type: 'string', oneOf: STATUS_TYPES }),
+    a: opt({ type: 'string', oneOf: ACTIVITY_TYPES }),
+    p: str(0, 255, true),
+    l: str(0, 64, true),
+  },
+  prefsUpdate: {
+    prefs: {
+      type: 'object',
+      fields: {
+        visibilityMode: opt({ type: 'string', oneOf: VISIBILITY_MODES }),
+        shareProjectName: opt({ type: 'boolean' }),
+        shareLanguage: opt({ type: 'boolean' }),
+        shareActivity: opt({ type: 'boolean' }),
+      },
+    },
+  },
+  rf: {},
+  hb: {},
+  cc: {
+    name: channelName,
+  },
+  jc: {
+    inviteCode,
+  },
+  lc: {
+    channelId,
+  },
+  cm: {
+    channelId,
+    content: str(0, CHANNEL_MESSAGE_MAX_LENGTH),  // may be empty when sharing code
+    replyTo: opt(messageId),
+    attachments,
+  },
+  ce: {
+    channelId,
+    mid: messageId,
+    content: str(1, CHANNEL_MESSAGE_MAX_LENGTH),
+  },
+  cx: { channelId, mid: messageId },
+  rx: {
+    channelId,
+    mid: messageId,
+    emoji: { type: 'string', check: singleEmoji },
+    add: { type: 'boolean' },
+  },
+  ch: {
+    channelId,
+    before: opt(messageId),
+    limit: opt(wholeNumber(1, CHANNEL_HISTORY_MAX_PAGE_SIZE)),
+  },
+  ck: { channelId, id: username },
+  cr: { channelId, id: username, role: { type: 'string', oneOf: ['admin', 'member'] } },
+  ct: { channelId, id: username },
+  cn: { channelId, name: channelName },
+  cd: { channelId },
+  ic: {
+    channelId,
+    expiresIn: opt({ type: 'number', oneOf: INVITE_EXPIRY_DURATIONS_MS }),
+    maxUses: opt(wholeNumber(1, INVITE_MAX_USES_LIMIT)),
+  },
+  il: { channelId },
+  ir: { channelId, code: inviteCode },
+  ss: {
+    text: str(0, STATUS_TEXT_MAX_LENGTH),
+    emoji: opt({ type: 'string', check: singleEmoji }),
+    expiresIn: opt({ type: 'number', oneOf: CUSTOM_STATUS_DURATIONS_MS }),
+  },
+  clr: {},
+  cfa: { username },
+  cfr: { username },
+  cfl: {},
+  gr: { guestToken: str(1, 512) },
+};
+
+const SERVER_SCHEMAS: Record<ServerMessage['t'], Schema> = {
+  loginSuccess: {
+    token: str(1),
+    githubId: opt({ type: 'number' }),
+    followers: opt({ type: 'array', items: { type: 'number' } }),
+    following: opt({ type: 'array', items: { type: 'number' } }),
+    guestToken: str(1, Infinity, true),
+  },
+  loginError: { error: str() },
+  sync: { users: { type: 'array', items: compactUser } },
+  u: {
+    id: username,
+    s: str(0, Infinity, true),
+    a: str(0, Infinity, true),
+    p: str(0, Infinity, true),
+    l: str(0, Infinity, true),
+    cs: customStatus,
+  },
+  o: {
+    id: username,
+    a: str(0, Infinity, true),
+    s: str(),
+    act: str(),
+    p: str(0, Infinity, true),
+    l: str(0, Infinity, true),
+    cs: customStatus,
+  },
+  x: { id: username, ts: { type: 'number' } },
+  token: { token: str(1) },
+  hb: {},
+  error: {
+    error: str(),
+    code: str(0, Infinity, true),
+    field: str(0, Infinity, true),
+    retryAfter: opt({ type: 'number' }),
+  },
+  ccOk: { channelId, name: str(1), inviteCode: str(1) },
+  jcOk: { channelId, name: str(1), remaining: opt(wholeNumber(0, MAX_CHANNEL_CAPACITY)) },
+  cs: {
+    channelId,
+    name: str(1),
+    members: { type: 'array', items: compactUser },
+    roles: opt({ type: 'object' }),
+    capacity: opt(wholeNumber(1, MAX_CHANNEL_CAPACITY)),
+    remaining: opt(wholeNumber(0, MAX_CHANNEL_CAPACITY)),
+  },
+  cu: {
+    channelId,
+    id: username,
+    s: str(0, Infinity, true),
+    a: str(0, Infinity, true),
+    p: str(0, Infinity, true),
+    l: str(0, Infinity, true),
+    cs: customStatus,
+  },
+  cj: { channelId, member: compactUser },
+  cl: { channelId, id: username },
+  cm: {
+    channelId,
+    mid: opt(messageId),
+    id: str(0, Infinity, true),
+    content: str(),
+    ts: opt({ type: 'number' }),
+    replyTo: opt(messageId),
+    attachments,
+    mentions: opt({ type: 'array', items: username }),
+  },
+  ce: {
+    channelId,
+    mid: messageId,
+    content: str(),
+    editedAt: opt({ type: 'number' }),
+  },
+  cx: { channelId, mid: messageId },
+  rx: {
+    channelId,
+    mid: messageId,
+    emoji: str(1),
+    add: { type: 'boolean' },
+    id: str(0, Infinity, true),
+  },
+  chOk: {
+    channelId,
+    messages: { type: 'array', items: historyEntry },
+    hasMore: { type: 'boolean' },
+  },
+  chl: { channelIds: { type: 'array', items: channelId } },
+  ck: { channelId, id: username },
+  cr: { channelId, id: username, role: { type: 'string', oneOf: CHANNEL_ROLES } },
+  cn: { channelId, name: str(1) },
+  cd: { channelId },
+  icOk: { channelId, invite },
+  ilOk: { channelId, invites: { type: 'array', items: invite } },
+  irOk: { channelId, code: inviteCode },
+  cfList: { friends: { type: 'array', items: username } },
+  grOk: { username },
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function fail(code: ValidationErrorCode, error: string, field?: string): { ok: false; error: ValidationError } {
+  return { ok: false, error: { code, error, field } };
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function checkField(value: unknown, rule: FieldRule, path: string): ValidationError | null {
+  if (value === undefined) {
+    return rule.optional ? null : { code: 'missing_field', error: `${path} is required`, field: path };
+  }
+  if (value === null && rule.nullable) return null;
+
+  if (typeOf(value) !== rule.type || (rule.type === 'number' && !Number.isFinite(value))) {
+    return { code: 'invalid_type', error: `${path} must be a ${rule.type}`, field: path };
+  }
+
+  if (rule.type === 'string' || rule.type === 'array') {
+    const length = (value as string | unknown[]).length;
+    if ((rule.min !== undefined && length < rule.min) || (rule.max !== undefined && length > rule.max)) {
+      const bounds = rule.max === Infinity ? `at least ${rule.min}` : `${rule.min ?? 0}-${rule.max}`;
+      return { code: 'invalid_length', error: `${path} length must be ${bounds}`, field: path };
+    }
+  }
+
+  if (rule.oneOf && !rule.oneOf.includes(value)) {
+    return { code: 'invalid_value', error: `${path} must be one of: ${rule.oneOf.join(', ')}`, field: path };
+  }
+
+  if (rule.check) {
+    const problem = rule.check(value);
+    if (problem) {
+      return { code: 'invalid_value', error: `${path} ${problem}`, field: path };
+    }
+  }
+
+  if (rule.fields) {
+    const problem = checkObject(value as Record<string, unknown>, rule.fields, `${path}.`);
+    if (problem) return problem;
+  }
+
+  if (rule.items) {
+    const items = value as unknown[];
+    for (let i = 0; i < items.length; i++) {
+      const problem = checkField(items[i], rule.items, `${path}[${i}]`);
+      if (problem) return problem;
+    }
+  }
+
+  return null;
+}
+
+function checkObject(value: Record<string, unknown>, schema: Schema, prefix = ''): ValidationError | null {
+  for (const [key, rule] of Object.entries(schema)) {
+    const problem = checkField(value[key], rule, `${prefix}${key}`);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+function validate<T>(data: unknown, schemas: Record<string, Schema>): ValidationResult<T> {
+  if (typeOf(data) !== 'object') {
+    return fail('invalid_message', 'Message must be a JSON object');
+  }
+
+  const message = data as Record<string, unknown>;
+  if (typeof message['t'] !== 'string') {
+    return fail('invalid_message', 'Message type (t) is required', 't');
+  }
+
+  const schema = Object.prototype.hasOwnProperty.call(schemas, message['t'])
+    ? schemas[message['t']]
+    : undefined;
+  if (!schema) {
+    return fail('unknown_type', `Unknown message type: ${message['t']}`, 't');
+  }
+
+  const problem = checkObject(message, schema);
+  if (problem) return { ok: false, error: problem };
+
+  return { ok: true, value: data as T };
+}
+
+/**
+ * Validate a message received from a client
+ */
+export function validateClientMessage(data: unknown): ValidationResult<ClientMessage> {
+  return validate<ClientMessage>(data, CLIENT_SCHEMAS);
+}
+
+/**
+ * Validate a message received from the server
+ */
+export function validateServerMessage(data: unknown): ValidationResult<ServerMessage> {
+  return validate<ServerMessage>(data, SERVER_SCHEMAS);
+}
+
+/**
+ * Parse and validate raw JSON in one step
+ */
+export function parseMessage<T>(
+  raw: string,
+  validator: (data: unknown) => ValidationResult<T>
+): ValidationResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return fail('invalid_json', 'Invalid JSON');
+  }
+  return validator(data);
+}
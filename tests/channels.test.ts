@@ -0,0 +1,389 @@
+/**
+ * Channel Integration Tests
+ * Drives the real channel message flow over WebSockets against PostgreSQL and Redis
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { setupTestContainers, teardownTestContainers, type TestContainers } from './setup';
+import { TestClient, startNode, type TestNode } from './testClient';
+
+describe('Channels', () => {
+  let containers: TestContainers;
+  let node: TestNode;
+  let url: string;
+
+  beforeAll(async () => {
+    containers = await setupTestContainers();
+    node = await startNode(containers);
+    url = node.url;
+  }, 60000);
+
+  afterAll(async () => {
+    await node.stop();
+    await teardownTestContainers(containers);
+  }, 30000);
+
+  it('should create, join, chat in and leave a channel', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    const bob = await TestClient.login(url, 'token-bob');
+
+    alice.send({ t: 'cc', name: '  Core Team  ' });
+    const created = await alice.next('ccOk');
+    expect(created.name).toBe('Core Team');
+    const aliceSync = await alice.next('cs');
+    expect(aliceSync.members.map(m => m.id)).toEqual(['alice']);
+    expect(aliceSync).toMatchObject({ capacity: 50, remaining: 49 });
+
+    bob.send({ t: 'jc', inviteCode: created.inviteCode });
+    expect(await bob.next('jcOk')).toMatchObject({ channelId: created.channelId, remaining: 48 });
+    const bobSync = await bob.next('cs');
+    expect(bobSync.members.map(m => m.id).sort()).toEqual(['alice', 'bob']);
+    expect(bobSync.remaining).toBe(48);
+    expect((await alice.next('cj')).member.id).toBe('bob');
+
+    bob.send({ t: 'cm', channelId: created.channelId, content: 'hello' });
+    for (const client of [alice, bob]) {
+      const chat = await client.next('cm');
+      expect(chat.id).toBe('bob');
+      expect(chat.content).toBe('hello');
+    }
+
+    bob.send({ t: 'lc', channelId: created.channelId });
+    expect((await alice.next('cl')).id).toBe('bob');
+
+    // Leaving again is refused and not announced
+    bob.send({ t: 'lc', channelId: created.channelId });
+    expect((await bob.next('error')).error).toBe('Not a member of this channel');
+    await expect(alice.next('cl', 500)).rejects.toThrow('Timed out');
+
+    await alice.close();
+    await bob.close();
+  });
+
+  it('should reject joining a channel twice', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    alice.send({ t: 'cc', name: 'Solo' });
+    const created = await alice.next('ccOk');
+
+    alice.send({ t: 'jc', inviteCode: created.inviteCode });
+    expect((await alice.next('error')).error).toBe('Already a member of this channel');
+
+    await alice.close();
+  });
+
+  it('should reject channel names that are too short once trimmed', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    alice.send({ t: 'cc', name: '  ab  ' });
+    expect((await alice.next('error')).code).toBe('invalid_value');
+
+    await alice.close();
+  });
+
+  it('should reject chat from non-members', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    const bob = await TestClient.login(url, 'token-bob');
+    alice.send({ t: 'cc', name: 'Private' });
+    const created = await alice.next('ccOk');
+
+    bob.send({ t: 'cm', channelId: created.channelId, content: 'let me in' });
+    expect((await bob.next('error')).error).toBe('Not a member of this channel');
+
+    await alice.close();
+    await bob.close();
+  });
+
+  it('should push member presence changes to the channel as deltas', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    const bob = await TestClient.login(url, 'token-bob');
+    alice.send({ t: 'cc', name: 'Live Status' });
+    const created = await alice.next('ccOk');
+    bob.send({ t: 'jc', inviteCode: created.inviteCode });
+    await alice.next('cj');
+
+    bob.send({ t: 'statusUpdate', a: 'Debugging', p: 'vscord' });
+    const update = await alice.next('cu');
+    expect(update).toMatchObject({ channelId: created.channelId, id: 'bob', a: 'Debugging', p: 'vscord' });
+    expect(update.s).toBeUndefined();
+
+    bob.send({ t: 'ss', text: 'Shipping' });
+    expect((await alice.next('cu')).cs?.text).toBe('Shipping');
+
+    await alice.close();
+    await bob.close();
+  });
+
+  it('should let the owner kick, promote and transfer ownership', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    const bob = await TestClient.login(url, 'token-bob');
+    alice.send({ t: 'cc', name: 'Managed' });
+    const created = await alice.next('ccOk');
+    let sync = await alice.next('cs');
+    while (sync.channelId !== created.channelId) sync = await alice.next('cs');
+    expect(sync.roles).toEqual({ alice: 'owner' });
+    bob.send({ t: 'jc', inviteCode: created.inviteCode });
+    await alice.next('cj');
+
+    bob.send({ t: 'ck', channelId: created.channelId, id: 'alice' });
+    expect((await bob.next('error')).error).toBe('Only channel admins can do that');
+
+    alice.send({ t: 'cr', channelId: created.channelId, id: 'bob', role: 'admin' });
+    expect(await bob.next('cr')).toMatchObject({ id: 'bob', role: 'admin' });
+
+    alice.send({ t: 'ct', channelId: created.channelId, id: 'bob' });
+    const roles = [await bob.next('cr'), await bob.next('cr')].map(m => [m.id, m.role]);
+    expect(roles).toEqual(expect.arrayContaining([['bob', 'owner'], ['alice', 'admin']]));
+
+    bob.send({ t: 'lc', channelId: created.channelId });
+    expect((await bob.next('error')).error).toBe('Transfer ownership before leaving this channel');
+
+    bob.send({ t: 'ck', channelId: created.channelId, id: 'alice' });
+    expect((await alice.next('ck')).id).toBe('alice');
+
+    // Kicked socket no longer receives channel traffic
+    bob.send({ t: 'cm', channelId: created.channelId, content: 'after kick' });
+    await bob.next('cm');
+    await expect(alice.next('cm', 500)).rejects.toThrow();
+
+    await alice.close();
+    await bob.close();
+  });
+
+  it('should notify every member when a channel is deleted', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    const bob = await TestClient.login(url, 'token-bob');
+    alice.send({ t: 'cc', name: 'Short Lived' });
+    const created = await alice.next('ccOk');
+    bob.send({ t: 'jc', inviteCode: created.inviteCode });
+    await alice.next('cj');
+
+    bob.send({ t: 'cd', channelId: created.channelId });
+    expect((await bob.next('error')).error).toBe('Only the channel owner can do that');
+
+    alice.send({ t: 'cd', channelId: created.channelId });
+    expect((await bob.next('cd')).channelId).toBe(created.channelId);
+    expect((await alice.next('cd')).channelId).toBe(created.channelId);
+
+    await alice.close();
+    await bob.close();
+  });
+
+  it('should give distinct errors for exhausted and revoked invites', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    const bob = await TestClient.login(url, 'token-bob');
+    alice.send({ t: 'cc', name: 'Invite Only' });
+    const created = await alice.next('ccOk');
+
+    alice.send({ t: 'ic', channelId: created.channelId, maxUses: 1 });
+    const { invite } = await alice.next('icOk');
+    expect(invite).toMatchObject({ createdBy: 'alice', maxUses: 1, uses: 0 });
+
+    // Creator is already a member, so the single use is left for bob
+    bob.send({ t: 'jc', inviteCode: invite.code });
+    await bob.next('jcOk');
+    bob.send({ t: 'lc', channelId: created.channelId });
+    await alice.next('cl');
+    bob.send({ t: 'jc', inviteCode: invite.code });
+    expect((await bob.next('error')).code).toBe('invite_exhausted');
+
+    alice.send({ t: 'il', channelId: created.channelId });
+    const listed = await alice.next('ilOk');
+    expect(listed.invites.map(i => i.code)).toEqual([created.inviteCode]);
+
+    alice.send({ t: 'ir', channelId: created.channelId, code: created.inviteCode });
+    await alice.next('irOk');
+    bob.send({ t: 'jc', inviteCode: created.inviteCode });
+    expect((await bob.next('error')).code).toBe('invite_revoked');
+
+    bob.send({ t: 'il', channelId: created.channelId });
+    expect((await bob.next('error')).error).toBe('Not a member of this channel');
+
+    await alice.close();
+    await bob.close();
+  });
+
+  it('should store chat and serve it as paged history', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    alice.send({ t: 'cc', name: 'History' });
+    const created = await alice.next('ccOk');
+
+    for (const content of ['one', 'two', 'three']) {
+      alice.send({ t: 'cm', channelId: created.channelId, content });
+      expect((await alice.next('cm')).mid).toMatch(/^\d+$/);
+    }
+
+    alice.send({ t: 'ch', channelId: created.channelId, limit: 2 });
+    const latest = await alice.next('chOk');
+    expect(latest.messages.map(m => m.content)).toEqual(['two', 'three']);
+    expect(latest.hasMore).toBe(true);
+
+    alice.send({ t: 'ch', channelId: created.channelId, before: latest.messages[0]!.mid });
+    const older = await alice.next('chOk');
+    expect(older.messages.map(m => [m.id, m.content])).toEqual([['alice', 'one']]);
+    expect(older.hasMore).toBe(false);
+
+    await alice.close();
+  });
+
+  it('should edit, delete, react to and thread messages', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    const bob = await TestClient.login(url, 'token-bob');
+    alice.send({ t: 'cc', name: 'Threads' });
+    const created = await alice.next('ccOk');
+    bob.send({ t: 'jc', inviteCode: created.inviteCode });
+    await alice.next('cj');
+    const channelId = created.channelId;
+
+    alice.send({ t: 'cm', channelId, content: 'ship it?' });
+    const root = await bob.next('cm');
+    await alice.next('cm');
+
+    bob.send({ t: 'rx', channelId, mid: root.mid, emoji: '👍', add: true });
+    expect(await alice.next('rx')).toMatchObject({ mid: root.mid, emoji: '👍', add: true, id: 'bob' });
+
+    bob.send({ t: 'cm', channelId, content: 'yes', replyTo: root.mid });
+    const reply = await alice.next('cm');
+    expect(reply.replyTo).toBe(root.mid);
+    await bob.next('cm');
+
+    // Replies to replies join the root's thread
+    alice.send({ t: 'cm', channelId, content: 'thanks', replyTo: reply.mid });
+    expect((await bob.next('cm')).replyTo).toBe(root.mid);
+    await alice.next('cm');
+
+    bob.send({ t: 'ce', channelId, mid: root.mid, content: 'hijacked' });
+    expect((await bob.next('error')).error).toBe('You can only edit your own messages');
+    bob.send({ t: 'cx', channelId, mid: root.mid });
+    expect((await bob.next('error')).error).toBe('Only the author or a channel admin can delete this message');
+
+    alice.send({ t: 'ce', channelId, mid: root.mid, content: 'ship it!' });
+    expect(await bob.next('ce')).toMatchObject({ mid: root.mid, content: 'ship it!' });
+
+    // Owner may delete anyone's message
+    alice.send({ t: 'cx', channelId, mid: reply.mid });
+    expect((await bob.next('cx')).mid).toBe(reply.mid);
+
+    alice.send({ t: 'ch', channelId });
+    const history = await alice.next('chOk');
+    const byId = new Map(history.messages.map(m => [m.mid, m]));
+    expect(byId.get(root.mid!)).toMatchObject({ content: 'ship it!', reactions: { '👍': ['bob'] } });
+    expect(byId.get(root.mid!)?.editedAt).toBeGreaterThan(0);
+    expect(byId.get(reply.mid!)).toMatchObject({ deleted: true, content: '', replyTo: root.mid });
+
+    await alice.close();
+    await bob.close();
+  });
+
+  it('should share code and resolve mentions against channel members', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    const bob = await TestClient.login(url, 'token-bob');
+    alice.send({ t: 'cc', name: 'Snippets' });
+    const created = await alice.next('ccOk');
+    bob.send({ t: 'jc', inviteCode: created.inviteCode });
+    await alice.next('cj');
+    const channelId = created.channelId;
+
+    const attachment = { kind: 'code', code: 'const x = 1;', languageId: 'typescript', path: 'src/x.ts', startLine: 4, endLine: 4 };
+    alice.send({ t: 'cm', channelId, content: '@BOB @carol @alice look', attachments: [attachment] });
+    const shared = await bob.next('cm');
+    expect(shared.attachments).toEqual([attachment]);
+    expect(shared.mentions).toEqual(['bob']);
+    await alice.next('cm');
+
+    alice.send({ t: 'cm', channelId, content: '', attachments: [{ ...attachment, code: 'x'.repeat(9 * 1024) }, { ...attachment, code: 'y'.repeat(9 * 1024) }] });
+    expect(await alice.next('error')).toMatchObject({ code: 'attachment_too_large' });
+    alice.send({ t: 'cm', channelId, content: '  ' });
+    expect((await alice.next('error')).error).toBe('Message is empty');
+
+    alice.send({ t: 'ch', channelId });
+    const history = await alice.next('chOk');
+    expect(history.messages).toHaveLength(1);
+    expect(history.messages[0]).toMatchObject({ attachments: [attachment], mentions: ['bob'] });
+
+    await alice.close();
+    await bob.close();
+  });
+
+  it('should show members connected to another node as online', async () => {
+    const other = await startNode(containers);
+    const alice = await TestClient.login(url, 'token-alice');
+    alice.send({ t: 'cc', name: 'Cluster' });
+    const created = await alice.next('ccOk');
+
+    const bob = await TestClient.login(other.url, 'token-bob');
+    bob.send({ t: 'jc', inviteCode: created.inviteCode });
+    let sync = await bob.next('cs');
+    while (sync.channelId !== created.channelId) sync = await bob.next('cs');
+    expect(sync.members.find(m => m.id === 'alice')?.s).toBe('Online');
+    expect((await alice.next('cj')).member.id).toBe('bob');
+
+    // Chat and status travel between the nodes through Redis
+    alice.send({ t: 'cm', channelId: created.channelId, content: 'hello from node 1' });
+    expect((await bob.next('cm')).content).toBe('hello from node 1');
+    bob.send({ t: 'statusUpdate', a: 'Debugging' });
+    expect(await alice.next('cu')).toMatchObject({ channelId: created.channelId, id: 'bob', a: 'Debugging' });
+
+    await alice.close();
+    await bob.close();
+    await other.stop();
+  });
+
+  it('should fan out status to channels joined from another node', async () => {
+    const other = await startNode(containers);
+    const bob = await TestClient.login(url, 'token-bob');
+    bob.send({ t: 'cc', name: 'Two Windows' });
+    const created = await bob.next('ccOk');
+
+    // Alice has a window on each node and joins from the second one
+    const aliceHere = await TestClient.login(url, 'token-alice');
+    const aliceThere = await TestClient.login(other.url, 'token-alice');
+    aliceThere.send({ t: 'jc', inviteCode: created.inviteCode });
+    await aliceThere.next('jcOk');
+    await bob.next('cj');
+
+    // The first node publishes her status change to the new channel
+    aliceHere.send({ t: 'statusUpdate', a: 'Debugging' });
+    let update = await bob.next('cu');
+    while (update.channelId !== created.channelId) update = await bob.next('cu');
+    expect(update).toMatchObject({ id: 'alice', a: 'Debugging' });
+
+    // ...and stops once she has left, wherever that was handled
+    aliceThere.send({ t: 'lc', channelId: created.channelId });
+    expect((await bob.next('cl')).id).toBe('alice');
+    aliceHere.send({ t: 'statusUpdate', a: 'Coding' });
+    const updates = [];
+    try {
+      for (;;) updates.push(await bob.next('cu', 500));
+    } catch {
+      // No more updates
+    }
+    expect(updates.filter(u => u.channelId === created.channelId)).toEqual([]);
+
+    await aliceHere.close();
+    await aliceThere.close();
+    await bob.close();
+    await other.stop();
+  });
+
+  it('should restore memberships on a new login', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    alice.send({ t: 'cc', name: 'Persistent' });
+    const created = await alice.next('ccOk');
+    await alice.close();
+
+    const again = await TestClient.login(url, 'token-alice');
+    const list = await again.next('chl');
+    expect(list.channelIds).toContain(created.channelId);
+
+    const syncs = [];
+    for (let i = 0; i < list.channelIds.length; i++) {
+      syncs.push(await again.next('cs'));
+    }
+    expect(syncs.map(s => s.channelId)).toContain(created.channelId);
+
+    // Subscription is live again: chat reaches the restored socket
+    again.send({ t: 'cm', channelId: created.channelId, content: 'back' });
+    expect((await again.next('cm')).content).toBe('back');
+
+    await again.close();
+  });
+});
@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { setupTestContainers, teardownTestContainers, type TestContainers } from './setup';
+import { DatabaseService } from '../src/server/database';
 
 describe('DatabaseService', () => {
   let containers: TestContainers;
@@ -88,29 +89,120 @@ describe('DatabaseService', () => {
 
       expect(channel.name).toBe('Test Team');
       expect(channel.owner_id).toBe(123456);
-      expect(channel.invite_code).toHaveLength(6);
 
       channelId = channel.id;
-      inviteCode = channel.invite_code;
     });
 
-    it('should get channel by invite code', async () => {
-      const channel = await containers.db.getChannelByInviteCode(inviteCode);
-      expect(channel).not.toBeNull();
-      expect(channel?.id).toBe(channelId);
+    it('should create and look up invites', async () => {
+      const invite = await containers.db.createInvite(channelId, 123456, Date.now() + 60000);
+      expect(invite.code).toMatch(/^[A-Z2-9]{6}$/);
+      inviteCode = invite.code;
+
+      const found = await containers.db.getInvite(inviteCode.toLowerCase());
+      expect(found?.channel_id).toBe(channelId);
+      expect(found?.created_by_username).toBe('testuser');
+    });
+
+    it('should stop claiming uses once an invite is exhausted', async () => {
+      const invite = await containers.db.createInvite(channelId, 123456, Date.now() + 60000, 1);
+      expect(await containers.db.claimInviteUse(invite.code)).toBe(true);
+      expect(await containers.db.claimInviteUse(invite.code)).toBe(false);
+
+      await containers.db.releaseInviteUse(invite.code);
+      expect(await containers.db.claimInviteUse(invite.code)).toBe(true);
+    });
+
+    it('should not claim expired or revoked invites', async () => {
+      const expired = await containers.db.createInvite(channelId, 123456, Date.now() - 1);
+      expect(await containers.db.claimInviteUse(expired.code)).toBe(false);
+
+      expect(await containers.db.revokeInvite(channelId, inviteCode)).toBe(true);
+      expect(await containers.db.claimInviteUse(inviteCode)).toBe(false);
+      expect(await containers.db.revokeInvite(channelId, inviteCode)).toBe(false);
+
+      const active = await containers.db.getChannelInvites(channelId);
+      expect(active.map(i => i.code)).not.toContain(inviteCode);
+      expect(active.map(i => i.code)).not.toContain(expired.code);
+    });
+
+    it('should page chat history backwards from a message id', async () => {
+      const sent = [];
+      for (let i = 0; i < 5; i++) {
+        sent.push(await containers.db.insertChannelMessage(channelId, 123456, 'testuser', `message ${i}`));
+      }
+
+      const latest = await containers.db.getChannelMessages(channelId, null, 2);
+      expect(latest.messages.map(m => m.content)).toEqual(['message 3', 'message 4']);
+      expect(latest.hasMore).toBe(true);
+
+      const older = await containers.db.getChannelMessages(channelId, latest.messages[0]!.id, 10);
+      expect(older.messages.map(m => m.content)).toEqual(['message 0', 'message 1', 'message 2']);
+      expect(older.hasMore).toBe(false);
+      expect(older.messages[0]?.id).toBe(sent[0]?.id);
+    });
+
+    it('should prune messages past retention', async () => {
+      const removed = await containers.db.pruneChannelMessages(Date.now() + 1);
+      expect(removed).toBe(5);
+      expect((await containers.db.getChannelMessages(channelId, null, 10)).messages).toEqual([]);
     });
 
     it('should add members (up to limit)', async () => {
       // Create second user
       await containers.db.upsertUser(789, 'member2', '', [], []);
 
-      const added = await containers.db.addChannelMember(channelId, 789, 'member2');
-      expect(added).toBe(true);
+      const result = await containers.db.addChannelMember(channelId, 789, 'member2');
+      expect(result).toEqual({ added: true, remaining: 48 }); // default capacity 50
+
+      // Joining twice is not mistaken for a full channel
+      expect(await containers.db.addChannelMember(channelId, 789, 'member2'))
+        .toEqual({ added: false, reason: 'already_member' });
 
       const members = await containers.db.getChannelMembers(channelId);
       expect(members.length).toBe(2); // owner + new member
     });
 
+    it('should never exceed capacity under concurrent joins', async () => {
+      const channel = await containers.db.createChannel('Nearly Full', 123456, 'testuser');
+      expect(channel.capacity).toBe(50);
+      expect(await containers.db.setChannelCapacity(channel.id, 3)).toBe(true);
+
+      const joiners = [9001, 9002, 9003, 9004, 9005, 9006];
+      for (const id of joiners) {
+        await containers.db.upsertUser(id, `joiner${id}`, '', [], []);
+      }
+
+      const results = await Promise.all(
+        joiners.map(id => containers.db.addChannelMember(channel.id, id, `joiner${id}`))
+      );
+      expect(results.flatMap(r => r.added ? [r.remaining] : []).sort()).toEqual([0, 1]);
+      expect(results.filter(r => !r.added && r.reason === 'full')).toHaveLength(4);
+      expect(await containers.db.getChannelMembers(channel.id)).toHaveLength(3);
+
+      await containers.db.deleteChannel(channel.id, 123456);
+    });
+
+    it('should raise existing channels to a configured capacity', async () => {
+      const small = await containers.db.createChannel('Small', 123456, 'testuser');
+      const large = await containers.db.createChannel('Large', 123456, 'testuser');
+      await containers.db.setChannelCapacity(small.id, 10);
+      await containers.db.setChannelCapacity(large.id, 500);
+
+      // As on a restart with CHANNEL_CAPACITY=200
+      const restarted = new DatabaseService(containers.postgres.getConnectionUri(), { channelCapacity: 200 });
+      await restarted.initialize();
+
+      expect((await restarted.getChannelById(small.id))?.capacity).toBe(200);
+      expect((await restarted.getChannelById(large.id))?.capacity).toBe(500);
+      const created = await restarted.createChannel('Fresh', 123456, 'testuser');
+      expect(created.capacity).toBe(200);
+      await restarted.close();
+
+      await containers.db.deleteChannel(created.id, 123456);
+      await containers.db.deleteChannel(small.id, 123456);
+      await containers.db.deleteChannel(large.id, 123456);
+    });
+
     it('should check membership', async () => {
       const isMember = await containers.db.isChannelMember(channelId, 789);
       expect(isMember).toBe(true);
@@ -0,0 +1,41 @@
+/**
+ * Guest Auth Tests
+ * Verifies guest credentials cannot be forged or reused for another name
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GuestAuthService } from '../src/server/services/guestAuth';
+
+describe('GuestAuthService', () => {
+  const guestAuth = new GuestAuthService('test-secret');
+
+  it('should verify a credential it issued', () => {
+    const { token, credential } = guestAuth.issue('guest42');
+    expect(guestAuth.verify(token)).toEqual(credential);
+  });
+
+  it('should issue a different credential each time', () => {
+    const first = guestAuth.issue('guest42');
+    const second = guestAuth.issue('guest42');
+    expect(first.token).not.toBe(second.token);
+    expect(first.credential.tokenId).not.toBe(second.credential.tokenId);
+  });
+
+  it('should reject a tampered payload', () => {
+    const { token } = guestAuth.issue('guest42');
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ u: 'someoneElse', n: 'x' })).toString('base64url');
+    expect(guestAuth.verify(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('should reject credentials signed with another secret', () => {
+    const { token } = new GuestAuthService('other-secret').issue('guest42');
+    expect(guestAuth.verify(token)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(guestAuth.verify('')).toBeNull();
+    expect(guestAuth.verify('no-signature')).toBeNull();
+    expect(guestAuth.verify('a.b.c')).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Presence Snapshot Tests
+ * Initial sync is built from the shared Redis status, wherever friends are connected
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { setupTestContainers, teardownTestContainers, type TestContainers } from './setup';
+import { TestClient, RELATIONSHIPS, startNode, type TestNode } from './testClient';
+import { SESSION_RESUME_TTL_MS } from '../src/shared/types';
+
+// A short grace period keeps the offline tests quick
+vi.mock('../src/shared/types', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../src/shared/types')>(),
+  SESSION_RESUME_TTL_MS: 2000,
+}));
+
+describe('Presence snapshot', () => {
+  let containers: TestContainers;
+  const nodes: TestNode[] = [];
+
+  /** Each node has its own PubSubService, so only Redis connects them */
+  const nodeUrl = async (): Promise<string> => {
+    const node = await startNode(containers);
+    nodes.push(node);
+    return node.url;
+  };
+
+  beforeAll(async () => {
+    containers = await setupTestContainers();
+  }, 60000);
+
+  afterAll(async () => {
+    for (const node of nodes) {
+      await node.stop();
+    }
+    await teardownTestContainers(containers);
+  }, 30000);
+
+  it('should sync custom status set before the friend connected, across nodes', async () => {
+    RELATIONSHIPS['token-alice'] = { followers: [], following: [1002] };
+    RELATIONSHIPS['token-bob'] = { followers: [1001], following: [] };
+
+    const bob = await TestClient.login(await nodeUrl(), 'token-bob');
+    bob.send({ t: 'statusUpdate', a: 'Debugging', p: 'vscord' });
+    bob.send({ t: 'ss', text: 'Shipping', emoji: '🚀' });
+    bob.send({ t: 'hb' });
+    await bob.next('hb');
+
+    const alice = await TestClient.login(await nodeUrl(), 'token-alice');
+    const [entry] = (await alice.next('sync')).users;
+    expect(entry).toMatchObject({ id: 'bob', s: 'Online', act: 'Debugging', p: 'vscord' });
+    expect(entry?.cs).toMatchObject({ text: 'Shipping', emoji: '🚀' });
+
+    // Live changes reach the other node too
+    bob.send({ t: 'ss', text: 'Reviewing' });
+    expect((await alice.next('u')).cs?.text).toBe('Reviewing');
+
+    // Custom status belongs to the user, so a new session keeps it
+    await bob.close();
+    const again = await TestClient.login(await nodeUrl(), 'token-bob');
+    again.send({ t: 'cc', name: 'Status Check' });
+    const members = (await again.next('cs')).members;
+    expect(members.find(m => m.id === 'bob')?.cs?.text).toBe('Reviewing');
+
+    await alice.close();
+    await again.close();
+  });
+
+  it('should not publish offline when the user reconnects within the grace period', async () => {
+    RELATIONSHIPS['token-alice'] = { followers: [], following: [1002] };
+    RELATIONSHIPS['token-bob'] = { followers: [1001], following: [] };
+    const url = await nodeUrl();
+
+    const bob = await TestClient.login(url, 'token-bob');
+    const alice = await TestClient.login(url, 'token-alice');
+    await alice.next('sync');
+
+    await bob.close();
+    const again = await TestClient.login(url, 'token-bob');
+    await expect(alice.next('x', SESSION_RESUME_TTL_MS + 1000)).rejects.toThrow('Timed out');
+
+    await alice.close();
+    await again.close();
+  });
+
+  it('should publish offline once the grace period passes', async () => {
+    RELATIONSHIPS['token-alice'] = { followers: [], following: [1002] };
+    RELATIONSHIPS['token-bob'] = { followers: [1001], following: [] };
+    const url = await nodeUrl();
+
+    const bob = await TestClient.login(url, 'token-bob');
+    const alice = await TestClient.login(url, 'token-alice');
+    await alice.next('sync');
+
+    const closedAt = Date.now();
+    await bob.close();
+    expect((await alice.next('x', SESSION_RESUME_TTL_MS + 1000)).id).toBe('bob');
+    expect(Date.now() - closedAt).toBeGreaterThanOrEqual(SESSION_RESUME_TTL_MS);
+
+    await alice.close();
+  });
+
+  it('should not publish offline when the user resumes on another node', async () => {
+    RELATIONSHIPS['token-alice'] = { followers: [], following: [1002] };
+    RELATIONSHIPS['token-bob'] = { followers: [1001], following: [] };
+
+    const bob = await TestClient.login(await nodeUrl(), 'token-bob');
+    const alice = await TestClient.login(await nodeUrl(), 'token-alice');
+    await alice.next('sync');
+
+    // The node bob left still holds the offline timer
+    await bob.close();
+    const resumed = await TestClient.login(await nodeUrl(), 'token-bob');
+    await expect(alice.next('x', SESSION_RESUME_TTL_MS + 1000)).rejects.toThrow('Timed out');
+
+    await alice.close();
+    await resumed.close();
+  });
+
+  it('should not publish offline when one of two windows closes', async () => {
+    RELATIONSHIPS['token-alice'] = { followers: [], following: [1002] };
+    RELATIONSHIPS['token-bob'] = { followers: [1001], following: [] };
+    const url = await nodeUrl();
+
+    const first = await TestClient.login(url, 'token-bob');
+    const second = await TestClient.login(url, 'token-bob');
+    const alice = await TestClient.login(url, 'token-alice');
+    await alice.next('sync');
+
+    await first.close();
+    await expect(alice.next('x', SESSION_RESUME_TTL_MS + 1000)).rejects.toThrow('Timed out');
+
+    await alice.close();
+    await second.close();
+  });
+
+  it('should publish the status of the most active window', async () => {
+    RELATIONSHIPS['token-alice'] = { followers: [], following: [1002] };
+    RELATIONSHIPS['token-bob'] = { followers: [1001], following: [] };
+    const url = await nodeUrl();
+
+    const first = await TestClient.login(url, 'token-bob');
+    const second = await TestClient.login(url, 'token-bob');
+    const alice = await TestClient.login(url, 'token-alice');
+    await alice.next('sync');
+
+    first.send({ t: 'statusUpdate', a: 'Coding' });
+    expect((await alice.next('u')).a).toBe('Coding');
+
+    // A less active window changes nothing friends can see
+    second.send({ t: 'statusUpdate', a: 'Reading' });
+    second.send({ t: 'statusUpdate', a: 'Debugging' });
+    expect((await alice.next('u')).a).toBe('Debugging');
+
+    // Closing the most active window falls back to the next one
+    await second.close();
+    expect((await alice.next('u')).a).toBe('Coding');
+
+    await alice.close();
+    await first.close();
+  });
+
+  describe('visibility', () => {
+    /** Alice is one of bob's followers; carol only follows him */
+    const befriend = (): void => {
+      RELATIONSHIPS['token-alice'] = { followers: [], following: [1002] };
+      RELATIONSHIPS['token-bob'] = { followers: [1001], following: [] };
+      RELATIONSHIPS['token-carol'] = { followers: [], following: [1002] };
+    };
+
+    afterAll(async () => {
+      await containers.db.updatePreferences(1002, { visibility_mode: 'everyone' });
+    });
+
+    it('should only sync users the viewer may see', async () => {
+      befriend();
+      await containers.db.updatePreferences(1002, { visibility_mode: 'followers' });
+      const url = await nodeUrl();
+
+      const bob = await TestClient.login(url, 'token-bob');
+      const alice = await TestClient.login(url, 'token-alice');
+      const carol = await TestClient.login(url, 'token-carol');
+      expect((await alice.next('sync')).users.map(u => u.id)).toContain('bob');
+      expect((await carol.next('sync')).users.map(u => u.id)).not.toContain('bob');
+
+      await alice.close();
+      await carol.close();
+      await bob.close();
+    });
+
+    it('should only deliver o, u and x to viewers who may see the user', async () => {
+      befriend();
+      await containers.db.updatePreferences(1002, { visibility_mode: 'followers' });
+      const url = await nodeUrl();
+
+      const bob = await TestClient.login(url, 'token-bob');
+      const alice = await TestClient.login(url, 'token-alice');
+      const carol = await TestClient.login(url, 'token-carol');
+
+      bob.send({ t: 'statusUpdate', a: 'Debugging' });
+      expect((await alice.next('u')).a).toBe('Debugging');
+      await expect(carol.next('u', 500)).rejects.toThrow('Timed out');
+
+      await bob.close();
+      expect((await alice.next('x', SESSION_RESUME_TTL_MS + 1000)).id).toBe('bob');
+      await expect(carol.next('x', 500)).rejects.toThrow('Timed out');
+
+      const again = await TestClient.login(url, 'token-bob');
+      expect((await alice.next('o')).id).toBe('bob');
+      await expect(carol.next('o', 500)).rejects.toThrow('Timed out');
+
+      await alice.close();
+      await carol.close();
+      await again.close();
+    });
+
+    it('should re-evaluate connected viewers when the visibility mode changes', async () => {
+      befriend();
+      await containers.db.updatePreferences(1002, { visibility_mode: 'everyone' });
+
+      const bob = await TestClient.login(await nodeUrl(), 'token-bob');
+      bob.send({ t: 'ss', text: 'Focusing' });
+      bob.send({ t: 'hb' });
+      await bob.next('hb');
+
+      const alice = await TestClient.login(await nodeUrl(), 'token-alice');
+      const carol = await TestClient.login(await nodeUrl(), 'token-carol');
+      expect((await carol.next('sync')).users.map(u => u.id)).toContain('bob');
+
+      const prefs = { visibilityMode: 'followers', shareProjectName: true, shareLanguage: true, shareActivity: true };
+      bob.send({ t: 'prefsUpdate', prefs });
+      expect((await carol.next('x')).id).toBe('bob');
+      await expect(alice.next('x', 500)).rejects.toThrow('Timed out');
+
+      bob.send({ t: 'prefsUpdate', prefs: { ...prefs, visibilityMode: 'everyone' } });
+      const online = await carol.next('o');
+      expect(online).toMatchObject({ id: 'bob', s: 'Online' });
+      expect(online.cs?.text).toBe('Focusing');
+      await expect(alice.next('o', 500)).rejects.toThrow('Timed out');
+
+      await alice.close();
+      await carol.close();
+      await bob.close();
+    });
+  });
+});
@@ -6,6 +6,7 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { setupTestContainers, teardownTestContainers, type TestContainers } from './setup';
 import WebSocket from 'ws';
+import { PubSubService } from '../src/server/services/pubsub';
 
 describe('PubSubService', () => {
   let containers: TestContainers;
@@ -50,25 +51,48 @@ describe('PubSubService', () => {
     });
   });
 
-  describe('Status Caching', () => {
-    it('should cache and retrieve user status', async () => {
-      await containers.pubsub.cacheUserStatus('testuser', {
+  describe('Status Snapshot', () => {
+    it('should store and retrieve user status', async () => {
+      await containers.pubsub.updateStatus('testuser', {
         s: 'Online',
-        a: 'Coding',
+        act: 'Coding',
         p: 'vscord',
         l: 'TypeScript',
+        a: 'https://avatars.example/testuser',
+        cs: { text: 'Focusing', emoji: '🎧' },
       });
 
-      const cached = await containers.pubsub.getCachedStatus('testuser');
-      expect(cached).not.toBeNull();
-      expect(cached?.s).toBe('Online');
-      expect(cached?.a).toBe('Coding');
-      expect(cached?.p).toBe('vscord');
+      const statuses = await containers.pubsub.getStatuses(['testuser', 'nonexistent']);
+      expect(statuses.get('testuser')).toMatchObject({
+        id: 'testuser',
+        s: 'Online',
+        act: 'Coding',
+        p: 'vscord',
+        a: 'https://avatars.example/testuser',
+        cs: { text: 'Focusing', emoji: '🎧' },
+      });
+      expect(statuses.has('nonexistent')).toBe(false);
+
+      await containers.pubsub.updateStatus('testuser', { cs: null });
+      expect((await containers.pubsub.getStatuses(['testuser'])).get('testuser')?.cs).toBeUndefined();
     });
 
-    it('should return null for non-existent user', async () => {
-      const cached = await containers.pubsub.getCachedStatus('nonexistent');
-      expect(cached).toBeNull();
+    it('should keep last seen only while offline', async () => {
+      await containers.pubsub.updateStatus('gone', {
+        s: 'Offline',
+        act: 'Idle',
+        ls: 1703789400000,
+        cs: { text: 'Out', expiresAt: Date.now() - 1000 },
+      });
+
+      const offline = (await containers.pubsub.getStatuses(['gone'])).get('gone');
+      expect(offline?.ls).toBe(1703789400000);
+      expect(offline?.cs).toBeUndefined();  // expired
+      expect(await containers.pubsub.publisher.ttl('status:gone')).toBeGreaterThan(0);
+
+      await containers.pubsub.updateStatus('gone', { s: 'Online' });
+      expect((await containers.pubsub.getStatuses(['gone'])).get('gone')?.ls).toBeUndefined();
+      expect(await containers.pubsub.publisher.ttl('status:gone')).toBe(-1);
     });
   });
 
@@ -99,4 +123,157 @@ describe('PubSubService', () => {
       ).resolves.not.toThrow();
     });
   });
+
+  describe('Sharded presence', () => {
+    it('should only deliver subscribed users from a shared shard', async () => {
+      const redisUrl = `redis://${containers.redis.getHost()}:${containers.redis.getMappedPort(6379)}`;
+      const sharded = new PubSubService(redisUrl, { presenceShards: 1 });
+      await sharded.initialize();
+
+      const received: string[] = [];
+      const ws = { readyState: 1, send: (message: string) => received.push(message) } as unknown as WebSocket;
+      await sharded.subscribeToMany(ws, ['alice', 'bob'], 'viewer');
+
+      // One shard channel carries every user
+      expect(await containers.pubsub.publisher.pubsub('CHANNELS', 'presence-shard:*')).toEqual(['presence-shard:0']);
+
+      await sharded.publishOffline('carol');
+      await sharded.publishOffline('alice');
+      await new Promise(resolve => setTimeout(resolve, 200));
+      await sharded.unsubscribe(ws, 'alice');
+      await sharded.publishOffline('alice');
+      await sharded.publishOffline('bob');
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(received.map(message => (JSON.parse(message) as { id: string }).id)).toEqual(['alice', 'bob']);
+
+      await sharded.unsubscribeAll(ws);
+      expect(await containers.pubsub.publisher.pubsub('CHANNELS', 'presence-shard:*')).toEqual([]);
+      await sharded.close();
+    });
+  });
+
+  describe('Subscription bookkeeping', () => {
+    const USERS = ['alice', 'bob', 'carol', 'dave', 'erin'];
+    const CHANNELS = ['c1', 'c2'];
+    const ALL = [...USERS.map(u => `presence:${u}`), ...CHANNELS.map(c => `channel:${c}`)];
+
+    /** Seeded PRNG so a failing sequence can be replayed */
+    function random(seed: number): (n: number) => number {
+      return (n) => {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        return Math.floor(seed / 0x100000000 * n);
+      };
+    }
+
+    async function redisChannels(): Promise<string[]> {
+      const channels = await containers.pubsub.publisher.pubsub('CHANNELS', '*') as string[];
+      return channels.filter(c => c.startsWith('presence') || c.startsWith('channel:')).sort();
+    }
+
+    /**
+     * Apply a random sequence of overlapping subscribe/unsubscribe/disconnect
+     * calls, mirroring them in a plain model, then check the service against it
+     */
+    async function checkSequence(seed: number, presenceShards: number): Promise<void> {
+      const pick = random(seed);
+      const pubsub = new PubSubService(
+        `redis://${containers.redis.getHost()}:${containers.redis.getMappedPort(6379)}`,
+        { presenceShards }
+      );
+      await pubsub.initialize();
+
+      const received: string[][] = [[], [], [], []];
+      const sockets = received.map(inbox =>
+        ({ readyState: 1, send: (message: string) => inbox.push(message) } as unknown as WebSocket));
+      const model = sockets.map(() => new Set<string>());
+
+      for (let step = 0; step < 40; step++) {
+        const pending: Promise<void>[] = [];
+        for (let n = 1 + pick(3); n > 0; n--) {
+          const i = pick(sockets.length);
+          const ws = sockets[i] as WebSocket;
+          const subscribed = model[i] as Set<string>;
+          const user = USERS[pick(USERS.length)] as string;
+          const channel = CHANNELS[pick(CHANNELS.length)] as string;
+
+          switch (pick(6)) {
+            case 0: {
+              const users = [user, USERS[pick(USERS.length)] as string, user];
+              pending.push(pubsub.subscribeToMany(ws, users, `viewer${i}`));
+              users.forEach(u => subscribed.add(`presence:${u}`));
+              break;
+            }
+            case 1:
+              pending.push(pubsub.subscribe(ws, user, `viewer${i}`));
+              subscribed.add(`presence:${user}`);
+              break;
+            case 2:
+              pending.push(pubsub.unsubscribe(ws, user));
+              subscribed.delete(`presence:${user}`);
+              break;
+            case 3:
+              pending.push(pubsub.subscribeToChannel(ws, channel, `viewer${i}`));
+              subscribed.add(`channel:${channel}`);
+              break;
+            case 4:
+              pending.push(pubsub.unsubscribeFromChannel(ws, channel));
+              subscribed.delete(`channel:${channel}`);
+              break;
+            default:
+              pending.push(pubsub.unsubscribeAll(ws));
+              subscribed.clear();
+          }
+        }
+        await Promise.all(pending);
+      }
+
+      const expected = ALL.filter(c => model.some(channels => channels.has(c)));
+      for (const channel of ALL) {
+        expect(pubsub.getSubscriberCount(channel)).toBe(model.filter(channels => channels.has(channel)).length);
+      }
+      expect([...pubsub.getSubscriberCounts().keys()].sort()).toEqual([...expected].sort());
+
+      const live = await redisChannels();
+      if (presenceShards) {
+        const chat = expected.filter(c => c.startsWith('channel:'));
+        expect(live.filter(c => c.startsWith('channel:'))).toEqual(chat.sort());
+        expect(live.filter(c => c.startsWith('presence-shard:')).length).toBeLessThanOrEqual(presenceShards);
+        expect(live.some(c => c.startsWith('presence:'))).toBe(false);
+      } else {
+        expect(live).toEqual([...expected].sort());
+      }
+
+      // Every subscribed socket gets each event exactly once
+      for (const user of USERS) {
+        await pubsub.publishPresenceEvent(user, { id: `presence:${user}` });
+      }
+      for (const channel of CHANNELS) {
+        await pubsub.publisher.publish(`channel:${channel}`, JSON.stringify({ id: `channel:${channel}` }));
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+      received.forEach((inbox, i) => {
+        const ids = inbox.map(message => (JSON.parse(message) as { id: string }).id).sort();
+        expect(ids, `seed ${seed}, socket ${i}`).toEqual([...model[i] ?? []].sort());
+      });
+
+      // Disconnecting everyone leaves nothing subscribed in Redis
+      await Promise.all(sockets.map(ws => pubsub.unsubscribeAll(ws)));
+      expect(pubsub.getSubscriberCounts().size).toBe(0);
+      expect(await redisChannels()).toEqual([]);
+      await pubsub.close();
+    }
+
+    it('should match a model under random sequences with per-user channels', async () => {
+      for (let seed = 1; seed <= 15; seed++) {
+        await checkSequence(seed, 0);
+      }
+    }, 30000);
+
+    it('should match a model under random sequences with sharded presence', async () => {
+      for (let seed = 1; seed <= 15; seed++) {
+        await checkSequence(seed, 3);
+      }
+    }, 30000);
+  });
 });
@@ -0,0 +1,75 @@
+/**
+ * Rate Limiter Integration Tests
+ * Tests token buckets against real Redis
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { WebSocket } from 'ws';
+import { setupTestContainers, teardownTestContainers, type TestContainers } from './setup';
+import { RateLimiter } from '../src/server/services/rateLimiter';
+
+/** Sockets are only used as identity keys */
+const makeSocket = (): WebSocket => ({}) as WebSocket;
+
+describe('RateLimiter', () => {
+  let containers: TestContainers;
+  let limiter: RateLimiter;
+
+  beforeAll(async () => {
+    containers = await setupTestContainers();
+    limiter = new RateLimiter(containers.pubsub.publisher);
+  }, 60000);
+
+  afterAll(async () => {
+    await teardownTestContainers(containers);
+  }, 30000);
+
+  it('should allow a burst up to the bucket capacity', async () => {
+    const ws = makeSocket();
+    for (let i = 0; i < 5; i++) {
+      expect((await limiter.consume(ws, 'cm', 'alice')).allowed).toBe(true);
+    }
+
+    const limited = await limiter.consume(ws, 'cm', 'alice');
+    expect(limited.allowed).toBe(false);
+    expect(limited.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('should keep separate budgets per message type', async () => {
+    const ws = makeSocket();
+    for (let i = 0; i < 5; i++) {
+      await limiter.consume(ws, 'jc', 'bob');
+    }
+    expect((await limiter.consume(ws, 'jc', 'bob')).allowed).toBe(false);
+    expect((await limiter.consume(ws, 'statusUpdate', 'bob')).allowed).toBe(true);
+  });
+
+  it('should share the user budget across connections', async () => {
+    for (let i = 0; i < 10; i++) {
+      // Fresh socket each time so only the user bucket drains
+      expect((await limiter.consume(makeSocket(), 'cm', 'carol')).allowed).toBe(true);
+    }
+    expect((await limiter.consume(makeSocket(), 'cm', 'carol')).allowed).toBe(false);
+  });
+
+  it('should refill tokens over time', async () => {
+    const ws = makeSocket();
+    for (let i = 0; i < 5; i++) {
+      await limiter.consume(ws, 'cm');
+    }
+    const limited = await limiter.consume(ws, 'cm');
+    expect(limited.allowed).toBe(false);
+
+    await new Promise(resolve => setTimeout(resolve, limited.retryAfterMs + 50));
+    expect((await limiter.consume(ws, 'cm')).allowed).toBe(true);
+  });
+
+  it('should flag sockets that keep exceeding their budget', async () => {
+    const ws = makeSocket();
+    let result = await limiter.consume(ws, 'jc');
+    while (!result.disconnect) {
+      result = await limiter.consume(ws, 'jc');
+    }
+    expect(result.allowed).toBe(false);
+  });
+});
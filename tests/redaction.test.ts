@@ -0,0 +1,149 @@
+/**
+ * Redaction Tests
+ * Verifies share preferences are enforced before presence leaves the server
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { WebSocket } from 'ws';
+import { DatabaseService } from '../src/server/database';
+import { VisibilityService } from '../src/server/services/visibility';
+import { redactUser, redactDelta } from '../src/server/services/redaction';
+import type { ClientData } from '../src/server/services/messageHandler';
+import type { DbPreferences, DbUser } from '../src/shared/types';
+
+const HIDE_PROJECT: DbPreferences = {
+  user_id: 1,
+  visibility_mode: 'everyone',
+  share_project: false,
+  share_language: true,
+  share_activity: true,
+};
+
+function makeUser(githubId: number, username: string): DbUser {
+  return {
+    github_id: githubId,
+    username,
+    avatar: '',
+    followers: [],
+    following: [],
+    close_friends: [],
+    last_seen: 0,
+    created_at: 0,
+  };
+}
+
+function makeSocket(): WebSocket & { sent: string[] } {
+  const sent: string[] = [];
+  return { readyState: 1, send: vi.fn((m: string) => sent.push(m)), sent } as unknown as WebSocket & { sent: string[] };
+}
+
+function makeClient(ws: WebSocket, githubId: number, username: string): ClientData {
+  return {
+    ws,
+    username,
+    githubId,
+    status: 'Online',
+    activity: 'Idle',
+    project: '',
+    language: '',
+    followers: [],
+    following: [],
+    friends: [],
+  };
+}
+
+/** Wait for queued deliveries to drain */
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Redaction', () => {
+  describe('redactUser', () => {
+    it('should blank the project when not shared', () => {
+      const user = redactUser({ id: 'alice', s: 'Online', act: 'Coding', p: 'SecretProject', l: 'go' }, HIDE_PROJECT);
+      expect(user.p).toBe('');
+      expect(user.l).toBe('go');
+      expect(user.act).toBe('Coding');
+    });
+
+    it('should mask activity as Hidden', () => {
+      const user = redactUser(
+        { id: 'alice', s: 'Online', act: 'Debugging' },
+        { ...HIDE_PROJECT, share_project: true, share_activity: false }
+      );
+      expect(user.act).toBe('Hidden');
+    });
+
+    it('should pass through when no preferences are stored', () => {
+      const user = { id: 'alice', s: 'Online', act: 'Coding', p: 'vscord' };
+      expect(redactUser(user, null)).toEqual(user);
+    });
+  });
+
+  describe('redactDelta', () => {
+    it('should strip hidden fields and keep the rest', () => {
+      const delta = redactDelta({ t: 'u', id: 'alice', a: 'Coding', p: 'SecretProject' }, HIDE_PROJECT);
+      expect(delta).toEqual({ t: 'u', id: 'alice', a: 'Coding' });
+    });
+
+    it('should drop a delta that only carried hidden fields', () => {
+      expect(redactDelta({ t: 'u', id: 'alice', p: 'SecretProject' }, HIDE_PROJECT)).toBeNull();
+    });
+  });
+
+  describe('VisibilityService delivery', () => {
+    const db = new DatabaseService('postgresql://unused@localhost/unused');
+    let clients: Map<WebSocket, ClientData>;
+    let visibility: VisibilityService;
+    let viewerWs: WebSocket & { sent: string[] };
+
+    beforeEach(() => {
+      clients = new Map();
+      visibility = new VisibilityService(db, (ws) => clients.get(ws));
+      visibility.remember(makeUser(1, 'alice'), HIDE_PROJECT);
+      visibility.remember(makeUser(2, 'bob'), null);
+
+      viewerWs = makeSocket();
+      clients.set(viewerWs, makeClient(viewerWs, 2, 'bob'));
+    });
+
+    it('should never deliver a project name the owner opted not to share', async () => {
+      const messages = [
+        { t: 'o', id: 'alice', s: 'Online', act: 'Coding', p: 'SecretProject', l: 'go' },
+        { t: 'u', id: 'alice', p: 'SecretProject' },
+        { t: 'u', id: 'alice', a: 'Debugging', p: 'SecretProject' },
+      ];
+      for (const message of messages) {
+        visibility.route('presence:alice', JSON.stringify(message), [viewerWs]);
+      }
+      visibility.route('channel:c1', JSON.stringify({
+        t: 'cj', channelId: 'c1', member: { id: 'alice', s: 'Online', act: 'Coding', p: 'SecretProject' },
+      }), [viewerWs]);
+      visibility.route('channel:c1', JSON.stringify({
+        t: 'cu', channelId: 'c1', id: 'alice', p: 'SecretProject',
+      }), [viewerWs]);
+      await flush();
+
+      expect(viewerWs.sent.length).toBe(3); // project-only deltas dropped
+      for (const sent of viewerWs.sent) {
+        expect(sent).not.toContain('SecretProject');
+      }
+    });
+
+    it('should redact snapshots built for sync and channel lists', () => {
+      const viewer = clients.get(viewerWs) as ClientData;
+      const user = visibility.redactFor(viewer, { id: 'alice', s: 'Online', act: 'Coding', p: 'SecretProject' });
+      expect(user.p).toBe('');
+    });
+
+    it('should not redact a user\'s own events', async () => {
+      const ownWs = makeSocket();
+      clients.set(ownWs, makeClient(ownWs, 1, 'alice'));
+
+      visibility.route('channel:c1', JSON.stringify({
+        t: 'cu', channelId: 'c1', id: 'alice', p: 'SecretProject',
+      }), [ownWs]);
+      await flush();
+
+      expect(ownWs.sent[0]).toContain('SecretProject');
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Relationship Refresh Tests
+ * Follows and unfollows made mid-session change whose presence a client receives
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+import { setupTestContainers, teardownTestContainers, type TestContainers } from './setup';
+import { TestClient, fakeGitHub, RELATIONSHIPS } from './testClient';
+import { MessageHandler } from '../src/server/services/messageHandler';
+import { GuestAuthService } from '../src/server/services/guestAuth';
+
+describe('Relationship refresh', () => {
+  let containers: TestContainers;
+  let wss: WebSocketServer;
+  let url: string;
+
+  beforeAll(async () => {
+    containers = await setupTestContainers();
+    const handler = new MessageHandler(containers.db, containers.pubsub, fakeGitHub, new GuestAuthService('test'));
+
+    wss = new WebSocketServer({ port: 0 });
+    wss.on('connection', (ws) => {
+      ws.on('message', (data: Buffer) => void handler.handleMessage(ws, data.toString()));
+      ws.on('close', () => void handler.handleDisconnect(ws));
+    });
+    url = `ws://localhost:${(wss.address() as AddressInfo).port}`;
+  }, 60000);
+
+  afterAll(async () => {
+    await new Promise(resolve => wss.close(resolve));
+    await teardownTestContainers(containers);
+  }, 30000);
+
+  it('should start and stop presence for people followed mid-session', async () => {
+    const alice = await TestClient.login(url, 'token-alice');
+    const bob = await TestClient.login(url, 'token-bob');
+    expect((await alice.next('sync')).users).toEqual([]);
+
+    // Alice follows Bob on GitHub, then refreshes
+    RELATIONSHIPS['token-alice'] = { followers: [], following: [1002] };
+    alice.send({ t: 'rf' });
+    expect(await alice.next('o')).toMatchObject({ id: 'bob', s: 'Online' });
+
+    bob.send({ t: 'statusUpdate', a: 'Debugging' });
+    expect(await alice.next('u')).toMatchObject({ id: 'bob', a: 'Debugging' });
+
+    // The new snapshot is stored for the next login
+    expect((await containers.db.getUserById(1001))?.following).toEqual([1002]);
+
+    RELATIONSHIPS['token-alice'] = { followers: [], following: [] };
+    alice.send({ t: 'rf' });
+    expect((await alice.next('x')).id).toBe('bob');
+
+    // Unsubscribed: further changes no longer arrive
+    bob.send({ t: 'statusUpdate', a: 'Coding' });
+    await expect(alice.next('u', 500)).rejects.toThrow('Timed out');
+
+    await alice.close();
+    await bob.close();
+  });
+});
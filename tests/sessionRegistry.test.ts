@@ -0,0 +1,69 @@
+/**
+ * Session Registry Integration Tests
+ * Simulates several server nodes sharing one Redis
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { setupTestContainers, teardownTestContainers, type TestContainers } from './setup';
+import { SessionRegistry, type NodeSessions } from '../src/server/services/sessionRegistry';
+
+function sessions(id: string, s: string, act: string): NodeSessions {
+  return { sockets: 1, status: { id, s, act, p: '', l: '' } };
+}
+
+describe('SessionRegistry', () => {
+  let containers: TestContainers;
+
+  beforeAll(async () => {
+    containers = await setupTestContainers();
+  }, 60000);
+
+  afterAll(async () => {
+    await teardownTestContainers(containers);
+  }, 30000);
+
+  it('should aggregate a user across nodes', async () => {
+    const nodeA = new SessionRegistry(containers.pubsub.publisher, async () => { });
+    const nodeB = new SessionRegistry(containers.pubsub.publisher, async () => { });
+
+    await nodeA.register('alice', sessions('alice', 'Away', 'Idle'));
+    await nodeB.register('alice', sessions('alice', 'Online', 'Debugging'));
+
+    const statuses = await nodeA.getStatuses(['alice', 'nobody']);
+    expect(statuses.get('alice')).toMatchObject({ s: 'Online', act: 'Debugging' });
+    expect(statuses.has('nobody')).toBe(false);
+
+    // Closing the last window on one node is not the last session
+    expect(await nodeB.unregister('alice')).toBe(true);
+    expect((await nodeA.getStatuses(['alice'])).get('alice')?.s).toBe('Away');
+    expect(await nodeA.unregister('alice')).toBe(false);
+    expect(await nodeA.hasSessions('alice')).toBe(false);
+  });
+
+  it('should clean up after a dead node exactly once', async () => {
+    const orphaned: string[] = [];
+    const onOrphaned = async (lost: NodeSessions[]): Promise<void> => {
+      orphaned.push(...lost.map(entry => entry.status.id));
+    };
+    const dead = new SessionRegistry(containers.pubsub.publisher, async () => { });
+    const survivorA = new SessionRegistry(containers.pubsub.publisher, onOrphaned);
+    const survivorB = new SessionRegistry(containers.pubsub.publisher, onOrphaned);
+    await Promise.all([dead.start(), survivorA.start(), survivorB.start()]);
+
+    await dead.register('bob', sessions('bob', 'Online', 'Coding'));
+    await dead.register('carol', sessions('carol', 'Online', 'Coding'));
+    await survivorA.register('carol', sessions('carol', 'Online', 'Idle'));
+
+    // Heartbeat stops, as if the process crashed
+    await dead.stop();
+    await Promise.all([survivorA.sweep(), survivorB.sweep()]);
+
+    // Carol is still connected to a live node, so only Bob went offline
+    expect(orphaned).toEqual(['bob']);
+    expect(await survivorA.hasSessions('bob')).toBe(false);
+    expect((await survivorA.getStatuses(['carol'])).get('carol')?.act).toBe('Idle');
+
+    await survivorA.stop();
+    await survivorB.stop();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * WebSocket Test Client
+ * Fake GitHub accounts, server nodes and a protocol client for driving a real MessageHandler
+ */
+
+import WebSocket, { WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+import type { GitHubService, GitHubUser } from '../src/server/services/github';
+import type { ServerMessage } from '../src/shared/types';
+import { MessageHandler } from '../src/server/services/messageHandler';
+import { GuestAuthService } from '../src/server/services/guestAuth';
+import { PubSubService } from '../src/server/services/pubsub';
+import type { TestContainers } from './setup';
+
+/** GitHub accounts keyed by access token */
+export const ACCOUNTS: Record<string, GitHubUser> = {
+  'token-alice': { id: 1001, login: 'alice', avatar_url: '' },
+  'token-bob': { id: 1002, login: 'bob', avatar_url: '' },
+  'token-carol': { id: 1003, login: 'carol', avatar_url: '' },
+};
+
+/** Follower/following ids keyed by access token; tests may change them */
+export const RELATIONSHIPS: Record<string, { followers: number[]; following: number[] }> = {};
+
+export const fakeGitHub = {
+  validateToken: async (token: string) => ACCOUNTS[token] ?? null,
+  getRelationships: async (token: string) => RELATIONSHIPS[token] ?? { followers: [], following: [] },
+} as unknown as GitHubService;
+
+export interface TestNode {
+  url: string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Start a server node with its own Redis connections, as a separate process
+ * would have; nodes share only PostgreSQL and the Redis server
+ */
+export async function startNode(containers: TestContainers): Promise<TestNode> {
+  const pubsub = new PubSubService(`redis://${containers.redis.getHost()}:${containers.redis.getMappedPort(6379)}`);
+  await pubsub.initialize();
+  const handler = new MessageHandler(containers.db, pubsub, fakeGitHub, new GuestAuthService('test'));
+
+  const wss = new WebSocketServer({ port: 0 });
+  wss.on('connection', (ws) => {
+    ws.on('message', (data: Buffer) => void handler.handleMessage(ws, data.toString()));
+    ws.on('close', () => void handler.handleDisconnect(ws));
+  });
+
+  return {
+    url: `ws://localhost:${(wss.address() as AddressInfo).port}`,
+    stop: async () => {
+      await new Promise(resolve => wss.close(resolve));
+      // Let disconnect handling for the last clients finish before Redis goes away
+      await new Promise(resolve => setTimeout(resolve, 200));
+      await handler.stop();
+      await pubsub.close();
+    },
+  };
+}
+
+/**
+ * Minimal protocol client that records everything the server sends
+ */
+export class TestClient {
+  private received: ServerMessage[] = [];
+  private waiters: Array<() => void> = [];
+
+  constructor(private ws: WebSocket) {
+    ws.on('message', (data: Buffer) => {
+      this.received.push(JSON.parse(data.toString()) as ServerMessage);
+      this.waiters.splice(0).forEach(wake => wake());
+    });
+  }
+
+  static async login(url: string, token: string): Promise<TestClient> {
+    const ws = new WebSocket(url);
+    await new Promise(resolve => ws.once('open', resolve));
+    const client = new TestClient(ws);
+    client.send({ t: 'login', username: ACCOUNTS[token]?.login, token });
+    await client.next('loginSuccess');
+    return client;
+  }
+
+  send(message: Record<string, unknown>): void {
+    this.ws.send(JSON.stringify(message));
+  }
+
+  /**
+   * Wait for (and consume) the next message of a type
+   */
+  async next<T extends ServerMessage['t']>(t: T, timeoutMs = 5000): Promise<Extract<ServerMessage, { t: T }>> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const index = this.received.findIndex(m => m.t === t);
+      if (index !== -1) {
+        return this.received.splice(index, 1)[0] as Extract<ServerMessage, { t: T }>;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${t}`);
+      }
+      await new Promise<void>(resolve => {
+        this.waiters.push(resolve);
+        setTimeout(resolve, 50);
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    this.ws.close();
+    await new Promise(resolve => this.ws.once('close', resolve));
+  }
+}
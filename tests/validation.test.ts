@@ -0,0 +1,162 @@
+/**
+ * Validation Tests
+ * Verifies protocol messages are checked before they reach a handler
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseMessage, validateClientMessage, validateServerMessage } from '../src/shared/validation';
+
+describe('Validation', () => {
+  describe('parseMessage', () => {
+    it('should reject malformed JSON', () => {
+      const result = parseMessage('{not json', validateClientMessage);
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('invalid_json');
+    });
+
+    it('should reject non-object payloads', () => {
+      const result = parseMessage('[1,2]', validateClientMessage);
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('invalid_message');
+    });
+
+    it('should accept a valid login', () => {
+      const result = parseMessage('{"t":"login","username":"alice","token":"gho_x"}', validateClientMessage);
+      expect(result.ok).toBe(true);
+    });
+  });
+
+  describe('validateClientMessage', () => {
+    it('should reject unknown message types', () => {
+      const result = validateClientMessage({ t: 'nope' });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('unknown_type');
+    });
+
+    it('should not treat prototype keys as message types', () => {
+      const result = validateClientMessage({ t: 'constructor' });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('unknown_type');
+    });
+
+    it('should report missing required fields', () => {
+      const result = validateClientMessage({ t: 'cm', channelId: 'c1' });
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('missing_field');
+        expect(result.error.field).toBe('content');
+      }
+    });
+
+    it('should report wrong field types', () => {
+      const result = validateClientMessage({ t: 'login', username: 42 });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('invalid_type');
+    });
+
+    it('should require a single emoji for reactions', () => {
+      expect(validateClientMessage({ t: 'rx', channelId: 'c1', mid: '42', emoji: '👍', add: true }).ok).toBe(true);
+      const result = validateClientMessage({ t: 'rx', channelId: 'c1', mid: '42', emoji: 'ok', add: true });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.field).toBe('emoji');
+    });
+
+    it('should reject message ids beyond the BIGINT range', () => {
+      const edit = { t: 'ce', channelId: 'c1', content: 'fixed' };
+      expect(validateClientMessage({ ...edit, mid: '9223372036854775807' }).ok).toBe(true);
+
+      const result = validateClientMessage({ ...edit, mid: '9223372036854775808' });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.field).toBe('mid');
+    });
+
+    it('should validate code attachments', () => {
+      const attachment = { kind: 'code', code: 'let x = 1;', languageId: 'typescript', path: 'src/a.ts', startLine: 3, endLine: 3 };
+      expect(validateClientMessage({ t: 'cm', channelId: 'c1', content: '', attachments: [attachment] }).ok).toBe(true);
+
+      const result = validateClientMessage({ t: 'cm', channelId: 'c1', content: '', attachments: [{ ...attachment, startLine: 0 }] });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.field).toBe('attachments[0].startLine');
+
+      const tooMany = validateClientMessage({ t: 'cm', channelId: 'c1', content: '', attachments: Array(4).fill(attachment) });
+      expect(tooMany.ok).toBe(false);
+      if (!tooMany.ok) expect(tooMany.error.code).toBe('invalid_length');
+    });
+
+    it('should only accept whole, bounded invite use counts', () => {
+      expect(validateClientMessage({ t: 'ic', channelId: 'c1', maxUses: 1 }).ok).toBe(true);
+      expect(validateClientMessage({ t: 'ic', channelId: 'c1' }).ok).toBe(true);
+      for (const maxUses of [0, 2.5, 1000]) {
+        const result = validateClientMessage({ t: 'ic', channelId: 'c1', maxUses });
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error.field).toBe('maxUses');
+      }
+    });
+
+    it('should enforce channel name length after trimming', () => {
+      expect(validateClientMessage({ t: 'cc', name: 'dev' }).ok).toBe(true);
+      const result = validateClientMessage({ t: 'cc', name: '  ab  ' });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('invalid_value');
+    });
+
+    it('should enforce status text length', () => {
+      const result = validateClientMessage({ t: 'ss', text: 'x'.repeat(129) });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('invalid_length');
+    });
+
+    it('should accept exactly one emoji', () => {
+      expect(validateClientMessage({ t: 'ss', text: 'Shipping', emoji: '🚀' }).ok).toBe(true);
+      expect(validateClientMessage({ t: 'ss', text: 'Family', emoji: '👨‍👩‍👧' }).ok).toBe(true);
+      expect(validateClientMessage({ t: 'ss', text: 'Twice', emoji: '🚀🚀' }).ok).toBe(false);
+      expect(validateClientMessage({ t: 'ss', text: 'Letter', emoji: 'a' }).ok).toBe(false);
+    });
+
+    it('should only accept the supported custom status durations', () => {
+      expect(validateClientMessage({ t: 'ss', text: 'Lunch', expiresIn: 60 * 60 * 1000 }).ok).toBe(true);
+      const result = validateClientMessage({ t: 'ss', text: 'Lunch', expiresIn: 1234 });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('invalid_value');
+    });
+
+    it('should reject unknown status and activity values', () => {
+      expect(validateClientMessage({ t: 'statusUpdate', s: 'Online', a: 'Coding' }).ok).toBe(true);
+      const result = validateClientMessage({ t: 'statusUpdate', a: 'Sleeping' });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.field).toBe('a');
+    });
+
+    it('should report nested field paths', () => {
+      const result = validateClientMessage({ t: 'prefsUpdate', prefs: { visibilityMode: 'nobody' } });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.field).toBe('prefs.visibilityMode');
+    });
+  });
+
+  describe('validateServerMessage', () => {
+    it('should accept a valid sync', () => {
+      const result = validateServerMessage({ t: 'sync', users: [{ id: 'alice', s: 'Online', act: 'Coding' }] });
+      expect(result.ok).toBe(true);
+    });
+
+    it('should report the offending array element', () => {
+      const result = validateServerMessage({ t: 'sync', users: [{ id: 'alice', s: 'Online', act: 'Coding' }, { id: 'bob' }] });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.field).toBe('users[1].s');
+    });
+
+    it('should allow a null custom status on updates', () => {
+      expect(validateServerMessage({ t: 'u', id: 'alice', cs: null }).ok).toBe(true);
+    });
+
+    it('should validate custom status in sync entries', () => {
+      const entry = { id: 'alice', s: 'Online', act: 'Coding', cs: { text: 'Shipping', emoji: '🚀' } };
+      expect(validateServerMessage({ t: 'sync', users: [entry] }).ok).toBe(true);
+
+      const result = validateServerMessage({ t: 'sync', users: [{ ...entry, cs: { text: 'x'.repeat(129) } }] });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.field).toBe('users[0].cs.text');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * WebSocket Client Tests
+ * Runs the extension's client against a scripted server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { WsClient } from '../src/client/services/wsClient';
+import type { ChannelHistoryEntry } from '../src/shared/types';
+
+describe('WsClient', () => {
+  let wss: WebSocketServer;
+  let url: string;
+
+  beforeAll(() => {
+    wss = new WebSocketServer({ port: 0 });
+    url = `ws://localhost:${(wss.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => wss.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should pass live chat messages on with attachments and mentions', async () => {
+    const live = {
+      t: 'cm',
+      channelId: 'channel-1',
+      mid: '42',
+      id: 'bob',
+      content: 'Look at this @alice',
+      ts: 1703789400000,
+      attachments: [{ kind: 'code', code: 'const x = 1;', languageId: 'typescript', path: 'src/x.ts', startLine: 1, endLine: 1 }],
+      mentions: ['alice'],
+    };
+    wss.once('connection', (ws) => {
+      ws.once('message', () => {
+        ws.send(JSON.stringify({ t: 'loginSuccess', token: 'resume' }));
+        ws.send(JSON.stringify(live));
+      });
+    });
+
+    const received = new Promise<[string, ChannelHistoryEntry]>((resolve) => {
+      const client = new WsClient({
+        serverUrl: url,
+        onUserListUpdate: () => { },
+        onConnectionChange: () => { },
+        onError: () => { },
+        onChannelMessage: (channelId, message) => {
+          client.disconnect();
+          resolve([channelId, message]);
+        },
+      });
+      void client.connect('alice');
+    });
+
+    const [channelId, message] = await received;
+    expect(channelId).toBe('channel-1');
+    expect(message).toEqual({
+      mid: '42',
+      id: 'bob',
+      content: 'Look at this @alice',
+      ts: 1703789400000,
+      attachments: live.attachments,
+      mentions: ['alice'],
+    });
+  });
+
+  it('should resume the session after the socket drops', async () => {
+    const logins: Array<Record<string, unknown>> = [];
+    const onConnection = (ws: WebSocket): void => {
+      ws.once('message', (data: Buffer) => {
+        logins.push(JSON.parse(data.toString()) as Record<string, unknown>);
+        ws.send(JSON.stringify({ t: 'loginSuccess', token: `resume-${logins.length}` }));
+        if (logins.length === 1) ws.close();
+      });
+    };
+    wss.on('connection', onConnection);
+
+    const client = new WsClient({
+      serverUrl: url,
+      onUserListUpdate: () => { },
+      onConnectionChange: () => { },
+      onError: () => { },
+    });
+    await client.connect('alice');
+    await vi.waitFor(() => expect(logins).toHaveLength(2), { timeout: 5000 });
+    client.disconnect();
+    wss.off('connection', onConnection);
+
+    expect(logins[0]?.['resumeToken']).toBeUndefined();
+    expect(logins[1]).toMatchObject({ t: 'login', username: 'alice', resumeToken: 'resume-1' });
+  });
+
+  it('should back off exponentially with jitter up to the maximum delay', () => {
+    vi.useFakeTimers();
+
+    /** Delays chosen for the first eight attempts with a fixed jitter */
+    const delaysWith = (jitter: number): number[] => {
+      vi.spyOn(Math, 'random').mockReturnValue(jitter);
+      const delays: number[] = [];
+      const client = new WsClient({
+        serverUrl: url,
+        onUserListUpdate: () => { },
+        onConnectionChange: () => { },
+        onError: () => { },
+        onReconnecting: (_attempt, delay) => delays.push(delay),
+      });
+      const internals = client as unknown as {
+        credentials: { username: string } | null;
+        reconnectTimer: NodeJS.Timeout | null;
+        scheduleReconnect(): void;
+      };
+      internals.credentials = { username: 'alice' };
+      for (let i = 0; i < 8; i++) {
+        internals.scheduleReconnect();
+        vi.clearAllTimers();
+        internals.reconnectTimer = null;
+      }
+      return delays;
+    };
+
+    expect(delaysWith(0)).toEqual([500, 1000, 2000, 4000, 8000, 15000, 15000, 15000]);
+    expect(delaysWith(1)).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000, 30000]);
+  });
+});